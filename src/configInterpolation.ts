@@ -0,0 +1,166 @@
+import fs from "fs";
+import path from "path";
+import { ConfigIssue, propertyPath } from "./configSchema";
+import { optionalEnv } from "./env";
+
+/**
+ * Matches `${VAR}` and `${VAR:-default}`. `$${` escapes a literal `${`.
+ */
+const ENV_REFERENCE = /\$(\$)?\{([A-Za-z_][A-Za-z0-9_]*)(?::-([^}]*))?\}/g;
+
+function isPlainObject(value: unknown): value is Record<string, unknown> {
+  return typeof value === "object" && value !== null && !Array.isArray(value);
+}
+
+function interpolateString(
+  value: string,
+  jsonPath: string,
+  issues: ConfigIssue[],
+  secrets: string[],
+): string {
+  return value.replace(
+    ENV_REFERENCE,
+    (match, escaped: string | undefined, name: string, fallback?: string) => {
+      if (escaped) return match.slice(1);
+
+      const envValue = optionalEnv(name);
+      if (envValue !== undefined) {
+        secrets.push(envValue);
+        return envValue;
+      }
+      if (fallback !== undefined) return fallback;
+
+      issues.push({
+        path: jsonPath,
+        message: `environment variable ${name} is not set`,
+      });
+      return "";
+    },
+  );
+}
+
+function readSecretFile(
+  reference: Record<string, unknown>,
+  baseDir: string,
+  jsonPath: string,
+  issues: ConfigIssue[],
+  secrets: string[],
+): string | undefined {
+  const keys = Object.keys(reference);
+  if (keys.length !== 1) {
+    issues.push({
+      path: jsonPath,
+      message: `a $file reference can't have other properties (${keys.filter((k) => k !== "$file").join(", ")})`,
+    });
+    return undefined;
+  }
+
+  if (typeof reference.$file !== "string") {
+    issues.push({ path: `${jsonPath}.$file`, message: "expected string" });
+    return undefined;
+  }
+
+  const filePath = path.resolve(
+    baseDir,
+    interpolateString(reference.$file, `${jsonPath}.$file`, issues, secrets),
+  );
+
+  try {
+    // Secret files usually end with a newline, which is never part of the secret
+    const secret = fs.readFileSync(filePath, "utf8").replace(/\r?\n$/, "");
+    secrets.push(secret);
+    return secret;
+  } catch (error) {
+    issues.push({
+      path: jsonPath,
+      message: `failed to read ${filePath}: ${(error as NodeJS.ErrnoException).code ?? error}`,
+    });
+    return undefined;
+  }
+}
+
+function interpolateValue(
+  value: unknown,
+  baseDir: string,
+  jsonPath: string,
+  issues: ConfigIssue[],
+  secrets: string[],
+): unknown {
+  if (typeof value === "string") {
+    return interpolateString(value, jsonPath, issues, secrets);
+  }
+
+  if (Array.isArray(value)) {
+    return value.map((item, i) =>
+      interpolateValue(item, baseDir, `${jsonPath}[${i}]`, issues, secrets),
+    );
+  }
+
+  if (isPlainObject(value)) {
+    if ("$file" in value) {
+      return readSecretFile(value, baseDir, jsonPath, issues, secrets);
+    }
+
+    const result: Record<string, unknown> = {};
+    for (const [key, item] of Object.entries(value)) {
+      result[key] = interpolateValue(
+        item,
+        baseDir,
+        propertyPath(jsonPath, key),
+        issues,
+        secrets,
+      );
+    }
+    return result;
+  }
+
+  return value;
+}
+
+/**
+ * Resolves the environment variables and secret files referenced in a configuration:
+ * - `"${VAR}"` and `"${VAR:-default}"` inside strings are replaced by the value of the variable
+ * - `{ "$file": "/run/secrets/x" }` is replaced by the content of the file, as a string
+ *
+ * The resolved values are never included in the issues. They are returned as `secrets`,
+ * to be masked with `redactIssues()` in the issues of the validation of the resolved configuration.
+ * @param value - Parsed JSON configuration
+ * @param baseDir - Directory relative `$file` paths are resolved from
+ * @param jsonPath - JSON path of the value, used in the issues
+ * @returns The resolved configuration, the list of unresolved references, and the resolved values
+ */
+export function interpolateConfig(
+  value: unknown,
+  baseDir: string,
+  jsonPath = "$",
+): { value: unknown; issues: ConfigIssue[]; secrets: string[] } {
+  const issues: ConfigIssue[] = [];
+  const secrets: string[] = [];
+  const result = interpolateValue(value, baseDir, jsonPath, issues, secrets);
+  return { value: result, issues, secrets };
+}
+
+/**
+ * Masks the values of environment variables and secret files in the messages of issues,
+ * as the validation messages can quote the invalid values, so secrets don't end up in the logs
+ * @param issues - Issues of the validation of an interpolated configuration
+ * @param secrets - Values resolved by `interpolateConfig()`
+ */
+export function redactIssues(
+  issues: ConfigIssue[],
+  secrets: string[],
+): ConfigIssue[] {
+  // Quoted values are JSON encoded. The longest secrets are masked first, in case they contain shorter ones
+  const forms = secrets
+    .filter((secret) => secret !== "")
+    .flatMap((secret) => [secret, JSON.stringify(secret).slice(1, -1)])
+    .sort((a, b) => b.length - a.length);
+
+  return issues.map((issue) => ({
+    ...issue,
+    message: forms.reduce(
+      (message, form) => message.split(form).join("***"),
+      issue.message,
+    ),
+  }));
+}
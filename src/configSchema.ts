@@ -0,0 +1,294 @@
+/**
+ * Minimal declarative schema used to validate plugin configurations,
+ * apply their defaults and infer their TypeScript types.
+ */
+
+type PrimitiveType = "string" | "number" | "boolean";
+
+interface BaseSchema<T> {
+  description?: string;
+  /** The value must be present in the configuration */
+  required?: boolean;
+  /** Value used when the property is missing */
+  default?: T;
+  /**
+   * Custom validation, returning an error message if the value is invalid,
+   * or the issues of its nested values (e.g. for recursive structures).
+   * Called after the type checks.
+   */
+  validate?: (value: T) => string | ConfigIssue[] | undefined;
+}
+
+export interface StringSchema extends BaseSchema<string> {
+  type: "string";
+  enum?: readonly string[];
+  pattern?: RegExp;
+  minLength?: number;
+}
+
+export interface NumberSchema extends BaseSchema<number> {
+  type: "number";
+  integer?: boolean;
+  min?: number;
+  max?: number;
+}
+
+export interface BooleanSchema extends BaseSchema<boolean> {
+  type: "boolean";
+}
+
+/**
+ * Value that can be of several primitive types, e.g. an hour given as `"9:00"` or `9`
+ */
+export interface UnionSchema extends BaseSchema<string | number | boolean> {
+  type: readonly PrimitiveType[];
+}
+
+export interface ArraySchema extends BaseSchema<unknown[]> {
+  type: "array";
+  items: Schema;
+  minItems?: number;
+}
+
+export interface ObjectSchema extends BaseSchema<Record<string, unknown>> {
+  type: "object";
+  properties: Record<string, Schema>;
+  /** Allow properties not declared in `properties`. Defaults to false, so typos are reported */
+  additionalProperties?: boolean;
+}
+
+export type Schema =
+  | StringSchema
+  | NumberSchema
+  | BooleanSchema
+  | UnionSchema
+  | ArraySchema
+  | ObjectSchema;
+
+type InferPrimitive<T> = T extends "string"
+  ? string
+  : T extends "number"
+    ? number
+    : T extends "boolean"
+      ? boolean
+      : never;
+
+type DefinedKeys<P> = {
+  [K in keyof P]: P[K] extends { required: true } | { default: unknown }
+    ? K
+    : never;
+}[keyof P];
+
+type InferObject<P> = {
+  -readonly [K in DefinedKeys<P>]: Infer<P[K]>;
+} & {
+  -readonly [K in Exclude<keyof P, DefinedKeys<P>>]?: Infer<P[K]>;
+};
+
+/**
+ * TypeScript type of the values matching a schema.
+ * Properties that are required or have a default are never undefined.
+ */
+export type Infer<S> = S extends { type: "string"; enum: readonly (infer E)[] }
+  ? E
+  : S extends { type: "array"; items: infer I }
+    ? Infer<I>[]
+    : S extends { type: "object"; properties: infer P }
+      ? InferObject<P>
+      : S extends { type: readonly (infer T)[] }
+        ? InferPrimitive<T>
+        : S extends { type: infer T }
+          ? InferPrimitive<T>
+          : never;
+
+export interface ConfigIssue {
+  /** JSON path of the invalid value, e.g. `$.googleCalendar.calendarIds[0]` */
+  path: string;
+  message: string;
+}
+
+/**
+ * Error listing all the issues found in one or more configurations
+ */
+export class ConfigValidationError extends Error {
+  constructor(
+    message: string,
+    public readonly issues: ConfigIssue[],
+  ) {
+    super(
+      `${message}:\n` +
+        issues.map((issue) => `  - ${issue.path}: ${issue.message}`).join("\n"),
+    );
+    this.name = "ConfigValidationError";
+  }
+}
+
+function typeOf(value: unknown): string {
+  if (value === null) return "null";
+  if (Array.isArray(value)) return "array";
+  return typeof value;
+}
+
+/**
+ * Get the JSON path of a property, e.g. `$.config.timezone` or `$.headers["X-Api-Key"]`
+ */
+export function propertyPath(path: string, key: string) {
+  return /^[A-Za-z_$][\w$]*$/.test(key)
+    ? `${path}.${key}`
+    : `${path}[${JSON.stringify(key)}]`;
+}
+
+function checkValue(
+  schema: Schema,
+  value: unknown,
+  path: string,
+  issues: ConfigIssue[],
+): unknown {
+  const issuesBefore = issues.length;
+  const types: readonly string[] =
+    typeof schema.type === "string" ? [schema.type] : schema.type;
+  const actualType = typeOf(value);
+
+  if (!types.includes(actualType)) {
+    issues.push({
+      path,
+      message: `expected ${types.join(" or ")}, got ${actualType}`,
+    });
+    return value;
+  }
+
+  let result = value;
+
+  if (schema.type === "string") {
+    const str = value as string;
+    if (schema.enum && !schema.enum.includes(str)) {
+      issues.push({
+        path,
+        message: `must be one of ${schema.enum.map((e) => JSON.stringify(e)).join(", ")}, got ${JSON.stringify(str)}`,
+      });
+      return value;
+    }
+    if (schema.minLength !== undefined && str.length < schema.minLength) {
+      issues.push({
+        path,
+        message: `must be at least ${schema.minLength} character(s) long`,
+      });
+      return value;
+    }
+    if (schema.pattern && !schema.pattern.test(str)) {
+      issues.push({ path, message: `must match ${schema.pattern}` });
+      return value;
+    }
+  }
+
+  if (schema.type === "number") {
+    const num = value as number;
+    if (!Number.isFinite(num) || (schema.integer && !Number.isInteger(num))) {
+      issues.push({
+        path,
+        message: `must be a finite ${schema.integer ? "integer" : "number"}`,
+      });
+      return value;
+    }
+    if (schema.min !== undefined && num < schema.min) {
+      issues.push({ path, message: `must be at least ${schema.min}` });
+      return value;
+    }
+    if (schema.max !== undefined && num > schema.max) {
+      issues.push({ path, message: `must be at most ${schema.max}` });
+      return value;
+    }
+  }
+
+  if (schema.type === "array") {
+    const array = value as unknown[];
+    if (schema.minItems !== undefined && array.length < schema.minItems) {
+      issues.push({
+        path,
+        message: `must contain at least ${schema.minItems} item(s)`,
+      });
+      return value;
+    }
+    result = array.map((item, i) =>
+      checkValue(schema.items, item, `${path}[${i}]`, issues),
+    );
+  }
+
+  if (schema.type === "object") {
+    result = checkObject(
+      schema,
+      value as Record<string, unknown>,
+      path,
+      issues,
+    );
+  }
+
+  // Custom validations only run on values whose content is valid
+  if (schema.validate && issuesBefore === issues.length) {
+    const message = (
+      schema.validate as (value: unknown) => string | ConfigIssue[] | undefined
+    )(result);
+    if (typeof message === "string") issues.push({ path, message });
+    else if (message) issues.push(...message);
+  }
+
+  return result;
+}
+
+function checkObject(
+  schema: ObjectSchema,
+  value: Record<string, unknown>,
+  path: string,
+  issues: ConfigIssue[],
+): Record<string, unknown> {
+  const result: Record<string, unknown> = {};
+
+  for (const [key, propertySchema] of Object.entries(schema.properties)) {
+    const propPath = propertyPath(path, key);
+    const propValue = value[key];
+
+    if (propValue === undefined) {
+      if (propertySchema.default !== undefined) {
+        // Defaults are cloned, so plugins can't alter the schema
+        result[key] = structuredClone(propertySchema.default);
+      } else if (propertySchema.required) {
+        issues.push({ path: propPath, message: "is required" });
+      }
+      continue;
+    }
+
+    result[key] = checkValue(propertySchema, propValue, propPath, issues);
+  }
+
+  for (const key of Object.keys(value)) {
+    if (key in schema.properties) continue;
+
+    if (schema.additionalProperties) {
+      result[key] = value[key];
+    } else {
+      issues.push({
+        path: propertyPath(path, key),
+        message: "is not a known property",
+      });
+    }
+  }
+
+  return result;
+}
+
+/**
+ * Validates a value against a schema, and applies the defaults
+ * @param schema - Schema describing the value
+ * @param value - Value to validate
+ * @param path - JSON path of the value, used in the issues
+ * @returns The value with its defaults applied, and the list of issues (empty if the value is valid)
+ */
+export function validateConfig<S extends Schema>(
+  schema: S,
+  value: unknown,
+  path = "$",
+): { value: Infer<S>; issues: ConfigIssue[] } {
+  const issues: ConfigIssue[] = [];
+  const result = checkValue(schema, value, path, issues);
+  return { value: result as Infer<S>, issues };
+}
@@ -0,0 +1,649 @@
+import crypto from "crypto";
+import { instantiatePlugin, PluginDefinition } from "./pluginLoader";
+import { BasePlugin } from "./plugins/basePlugin";
+import { Schedule } from "./schedule";
+import { Device, Model } from "./terminus";
+import * as Terminus from "./terminus";
+import {
+  isTransientError,
+  TerminusNetworkError,
+  TerminusNotFoundError,
+} from "./terminus";
+
+interface PluginState {
+  schedule: Schedule;
+  /**
+   * Device refresh time (ms) the plugin was last successfully refreshed for
+   */
+  lastRefreshAt: number | null;
+  /**
+   * Hash of the last uploaded image, or null if nothing was uploaded yet
+   */
+  fingerprint: string | null;
+  /**
+   * Time (ms) of the last upload
+   */
+  uploadedAt: number | null;
+  /**
+   * Delay (ms) after which the image is re-uploaded even if it did not change
+   */
+  forceUploadAfter: number;
+}
+
+const ONE_MINUTE = 60 * 1000; // 1 minute in milliseconds
+
+/**
+ * Checks if a device matches an identifier (friendly ID or MAC address)
+ */
+export function deviceMatches(device: Device, identifier: string): boolean {
+  const id = identifier.trim().toLowerCase();
+  return (
+    device.friendly_id.toLowerCase() === id ||
+    device.mac_address.toLowerCase() === id
+  );
+}
+
+/**
+ * Keeps the screens of a single device up to date.
+ * Each device has its own plugins, rendered at its own resolution, and its own
+ * synchronization state with the device refresh cycle.
+ */
+export default class DeviceLoop {
+  plugins: BasePlugin[] = [];
+  device: Device;
+  model!: Model;
+
+  private running = false;
+
+  /**
+   * Set once the loop is stopped, it can't be started again
+   */
+  private stopped = false;
+
+  /**
+   * Callbacks ending the current waits early, called when the loop is stopped
+   */
+  private wakeUps = new Set<() => void>();
+
+  private pluginStates = new Map<BasePlugin, PluginState>();
+
+  /**
+   * Refresh in progress, of the due plugins or of a plugin refreshed on demand, if any.
+   * It never rejects, the errors are reported to whoever requested the refresh.
+   */
+  private currentRefresh: Promise<void> | null = null;
+
+  /**
+   * Number of uploads skipped because the rendered image did not change
+   */
+  private savedUploads = 0;
+
+  /**
+   * The refresh rate (in seconds) to restore when we're done
+   * overriding it, or null if the refresh rate is not overridden.
+   */
+  private refreshRateToRestore: number | null = null;
+
+  /**
+   * Request overriding the refresh rate of the device, if any.
+   * It is awaited before restoring the refresh rate, so it can't be applied after the restoration.
+   */
+  private refreshRateOverride: Promise<unknown> | null = null;
+
+  constructor(device: Device) {
+    this.device = device;
+  }
+
+  get deviceId() {
+    return this.device.id;
+  }
+
+  /**
+   * Prefix used in all the logs of this device
+   */
+  get logPrefix() {
+    return `[${this.device.friendly_id}]`;
+  }
+
+  /**
+   * Waits for a delay, or until the loop is stopped
+   */
+  private sleep(ms: number) {
+    return new Promise<void>((resolve) => {
+      const wakeUp = () => {
+        clearTimeout(timeout);
+        this.wakeUps.delete(wakeUp);
+        resolve();
+      };
+      const timeout = setTimeout(wakeUp, ms);
+      this.wakeUps.add(wakeUp);
+    });
+  }
+
+  async identifyDevice() {
+    // Fixing width / height
+    const model = await Terminus.getModel(this.device.model_id);
+    this.model = model;
+
+    const { width, height } = Terminus.getModelScreenSize(model);
+    this.device.width = width;
+    this.device.height = height;
+  }
+
+  /**
+   * Instantiates the plugins enabled for this device
+   */
+  loadPlugins(definitions: PluginDefinition[]) {
+    for (const definition of definitions) {
+      const plugin = this.createPlugin(definition);
+      if (plugin) this.addPlugin(plugin, definition);
+    }
+
+    console.log(
+      this.logPrefix,
+      `Loaded ${this.plugins.length} plugin(s): ${this.plugins.map((p) => p.pluginName).join(", ")}`,
+    );
+  }
+
+  /**
+   * Instantiates a plugin for this device
+   * @returns The plugin, or null if the plugin is not enabled for this device
+   */
+  private createPlugin(definition: PluginDefinition): BasePlugin | null {
+    if (
+      definition.devices &&
+      !definition.devices.some((id) => deviceMatches(this.device, id))
+    ) {
+      return null;
+    }
+
+    return instantiatePlugin(definition, this.device, this.model);
+  }
+
+  private addPlugin(
+    plugin: BasePlugin,
+    definition: PluginDefinition,
+    index = this.plugins.length,
+  ) {
+    this.plugins.splice(index, 0, plugin);
+    this.pluginStates.set(plugin, {
+      schedule: definition.schedule,
+      lastRefreshAt: null,
+      fingerprint: null,
+      uploadedAt: null,
+      forceUploadAfter: definition.forceUploadAfter,
+    });
+  }
+
+  private async stopPlugin(plugin: BasePlugin) {
+    try {
+      await plugin.onStop();
+      plugin.log("Plugin stopped", "info");
+    } catch (error) {
+      plugin.log(`Failed to stop plugin: ${error}`, "error");
+    }
+  }
+
+  /**
+   * Replaces a running plugin by a new instance, after its config or its code changed.
+   * The new instance is started first, then the old one is stopped, and the new one
+   * is rendered at the next refresh, while the other plugins keep running.
+   * @param pluginName - Name of the plugin
+   * @param definition - New definition of the plugin, or null if it was disabled or removed
+   * @throws The error of the new instance `onStart()`. The new instance is stopped and the old one is kept
+   */
+  async reloadPlugin(pluginName: string, definition: PluginDefinition | null) {
+    const plugin = definition && this.createPlugin(definition);
+
+    if (plugin) {
+      try {
+        await plugin.onStart();
+      } catch (error) {
+        await this.stopPlugin(plugin);
+        throw error;
+      }
+    }
+
+    // A plugin is never stopped while it is being rendered or uploaded
+    await this.enqueueRefresh(async () => {
+      const index = this.plugins.findIndex((p) => p.pluginName === pluginName);
+      const oldPlugin = index === -1 ? null : this.plugins[index];
+      const oldState = oldPlugin && this.pluginStates.get(oldPlugin);
+
+      if (oldPlugin) {
+        this.plugins.splice(index, 1);
+        this.pluginStates.delete(oldPlugin);
+        await this.stopPlugin(oldPlugin);
+      }
+
+      if (!plugin) {
+        if (oldPlugin) {
+          await this.removePluginScreens(pluginName);
+          console.log(this.logPrefix, `Plugin ${pluginName} unloaded`);
+        }
+        return;
+      }
+
+      this.addPlugin(plugin, definition, index === -1 ? undefined : index);
+
+      // An identical image is still not uploaded again
+      const state = this.pluginStates.get(plugin);
+      if (state && oldState) {
+        state.fingerprint = oldState.fingerprint;
+        state.uploadedAt = oldState.uploadedAt;
+      }
+
+      plugin.log(oldPlugin ? "Plugin reloaded" : "Plugin loaded", "info");
+    });
+  }
+
+  /**
+   * Removes the screens of a plugin from the server and from the playlist of the device
+   */
+  private async removePluginScreens(pluginName: string) {
+    const screenPrefix = pluginName + "_" + this.device.friendly_id;
+    const screens = (await Terminus.getScreens()).filter((screen) =>
+      screen.name.startsWith(screenPrefix),
+    );
+
+    const playlistId = this.device.playlist_id;
+    const items = await Terminus.getPlaylistItems(playlistId);
+    for (const item of items) {
+      if (screens.some((screen) => screen.id === item.screen_id)) {
+        await Terminus.removePlaylistItem(playlistId, item.id);
+      }
+    }
+
+    for (const screen of screens) {
+      await Terminus.removeScreen(screen.id);
+    }
+  }
+
+  private async refreshScreenForPlugin(plugin: BasePlugin) {
+    plugin.log("Refreshing screen", "info");
+
+    const b64 = await plugin.renderToBase64();
+
+    // The PNG encoding is deterministic, so identical bitmaps give identical hashes
+    const fingerprint = crypto.createHash("sha256").update(b64).digest("hex");
+    const state = this.pluginStates.get(plugin);
+
+    if (
+      state &&
+      state.fingerprint === fingerprint &&
+      state.uploadedAt !== null &&
+      Date.now() - state.uploadedAt < state.forceUploadAfter
+    ) {
+      this.savedUploads++;
+      plugin.log(
+        `Screen unchanged, upload skipped (${this.savedUploads} upload(s) saved on this device)`,
+        "info",
+      );
+      return;
+    }
+
+    const screens = await Terminus.getScreens();
+
+    const screenPrefix = plugin.pluginName + "_" + this.device.friendly_id;
+    const oldScreens = screens.filter((screen) =>
+      screen.name.startsWith(screenPrefix),
+    );
+
+    const screenName = screenPrefix + "_" + Date.now().toString(36);
+
+    // Adding the new screen
+    const id = await Terminus.addScreen(
+      b64,
+      screenName,
+      screenName,
+      screenName + ".png",
+      this.device.model_id,
+    );
+
+    // Replacing the old screen in the playlist, so the screen order stays stable
+    const playlistId = this.device.playlist_id;
+    const items = await Terminus.getPlaylistItems(playlistId);
+    const oldItems = items.filter((item) =>
+      oldScreens.some((screen) => screen.id === item.screen_id),
+    );
+
+    if (oldItems.length) {
+      await Terminus.updatePlaylistItem(playlistId, oldItems[0].id, {
+        screen_id: id,
+      });
+
+      // There should only be one item per plugin, but we clean up just in case
+      for (const item of oldItems.slice(1)) {
+        await Terminus.removePlaylistItem(playlistId, item.id);
+      }
+    } else {
+      await Terminus.addScreenToPlaylist(playlistId, id);
+    }
+
+    // Removing the old screens, now that they are not displayed anymore
+    for (const screen of oldScreens) {
+      await Terminus.removeScreen(screen.id);
+    }
+
+    if (state) {
+      state.fingerprint = fingerprint;
+      state.uploadedAt = Date.now();
+    }
+
+    plugin.log("Screen refreshed", "info");
+  }
+
+  async start() {
+    // Initialize all plugins
+    for (const plugin of this.plugins) {
+      if (this.stopped) return;
+
+      await plugin.onStart();
+      plugin.log("Plugin started", "info");
+    }
+
+    // Start the device-synchronized refresh loop
+    await this.startDeviceSynchronizedLoop();
+  }
+
+  /**
+   * Refreshes the plugins whose schedule is due
+   * @param refreshAt - Time (ms) at which the device is expected to refresh
+   */
+  private refreshDuePlugins(refreshAt: number): Promise<void> {
+    return this.enqueueRefresh(() => this.refreshPlugins(refreshAt));
+  }
+
+  /**
+   * Renders and uploads a plugin right away, out of its schedule, e.g. after data was pushed to it
+   * @param pluginName - Name of the plugin
+   * @returns false if the plugin is not running on this device
+   */
+  async refreshPluginNow(pluginName: string): Promise<boolean> {
+    return this.enqueueRefresh(async () => {
+      const plugin = this.plugins.find((p) => p.pluginName === pluginName);
+      if (!plugin || !this.running) return false;
+
+      await this.refreshScreenForPlugin(plugin);
+      return true;
+    });
+  }
+
+  /**
+   * Runs a refresh once the one in progress is done,
+   * so a plugin is never rendered or uploaded twice at the same time
+   */
+  private enqueueRefresh<T>(refreshScreens: () => Promise<T>): Promise<T> {
+    const result = (this.currentRefresh ?? Promise.resolve()).then(
+      refreshScreens,
+    );
+    const refresh = result
+      .then(
+        () => {},
+        () => {},
+      )
+      .finally(() => {
+        if (this.currentRefresh === refresh) this.currentRefresh = null;
+      });
+    this.currentRefresh = refresh;
+    return result;
+  }
+
+  private async refreshPlugins(refreshAt: number) {
+    const duePlugins = this.plugins.filter((plugin) => {
+      const state = this.pluginStates.get(plugin);
+      return !state || state.schedule.isDue(refreshAt, state.lastRefreshAt);
+    });
+
+    if (!duePlugins.length) {
+      console.log(this.logPrefix, "No plugin due for this refresh");
+      return;
+    }
+
+    console.log(
+      this.logPrefix,
+      `Refreshing ${duePlugins.length}/${this.plugins.length} plugin(s)...`,
+    );
+
+    for (const plugin of duePlugins) {
+      // When the loop is stopped, the refresh in progress ends after the current plugin
+      if (!this.running) return;
+
+      try {
+        await this.refreshScreenForPlugin(plugin);
+
+        const state = this.pluginStates.get(plugin);
+        if (state) state.lastRefreshAt = refreshAt;
+      } catch (error) {
+        console.error(
+          this.logPrefix,
+          `Failed to refresh plugin ${plugin.pluginName}:`,
+          error,
+        );
+
+        if (error instanceof TerminusNetworkError) {
+          // No need to render the other plugins, they would not be uploaded either
+          console.warn(
+            this.logPrefix,
+            "Terminus is unreachable, skipping the remaining plugins until the next refresh",
+          );
+          return;
+        }
+      }
+    }
+  }
+
+  /**
+   * Stops the loop of the device: waits for the render and upload in progress,
+   * restores the refresh rate of the device, then stops the plugins one after another
+   */
+  async stop() {
+    this.stopped = true;
+    this.running = false;
+    for (const wakeUp of this.wakeUps) wakeUp();
+
+    await this.currentRefresh;
+
+    try {
+      await this.refreshRateOverride?.catch(() => {});
+      await this.restoreRefreshRate();
+    } catch (error) {
+      console.error(this.logPrefix, "Failed to restore refresh rate:", error);
+    }
+
+    for (const plugin of this.plugins) {
+      await this.stopPlugin(plugin);
+    }
+  }
+
+  /**
+   * Restores the refresh rate of the device if it was overridden
+   * while waiting for the device to refresh.
+   */
+  async restoreRefreshRate() {
+    if (this.refreshRateToRestore === null) return;
+
+    await Terminus.updateDevice(this.deviceId, {
+      refresh_rate: this.refreshRateToRestore,
+    });
+    this.refreshRateToRestore = null;
+  }
+
+  /**
+   * Waits for the device to be connected to the server, and to refresh.
+   * Guarantees that the device will refresh in at least 20 seconds, and at most 60 seconds after the promise resolves.
+   *
+   * @returns Promise<number | null> The time when the device will refresh next, or null if the loop was stopped
+   */
+  private async waitForDeviceRefresh(): Promise<number | null> {
+    const device = await Terminus.getDevice(this.deviceId);
+    const initialRefreshRate = device.refresh_rate * 1000;
+    const lastDeviceUpdateTime = Date.parse(device.updated_at);
+
+    const timeBeforeNextRefresh =
+      lastDeviceUpdateTime + initialRefreshRate - Date.now();
+    console.log(
+      this.logPrefix,
+      `Expecting device to refresh in ${(timeBeforeNextRefresh / 1000 / 60).toFixed(2)} minutes`,
+    );
+
+    // After the next refresh, the device will refresh every 60 seconds.
+    // We do this because we need 2 consecutive refreshes to be able to properly refresh the plugins in time:
+    // 1st refresh: Confirmation that the device is back online
+    // 2nd refresh: Refreshing the plugins
+    this.refreshRateToRestore = initialRefreshRate / 1000;
+    this.refreshRateOverride = Terminus.updateDevice(this.deviceId, {
+      refresh_rate: 60,
+    });
+    await this.refreshRateOverride;
+
+    return new Promise<number | null>((resolve, reject) => {
+      const stop = () => {
+        clearInterval(interval);
+        this.wakeUps.delete(stop);
+        resolve(null);
+      };
+      this.wakeUps.add(stop);
+
+      const interval = setInterval(async () => {
+        try {
+          const device = await Terminus.getDevice(this.deviceId);
+          let _lastDeviceUpdateTime = Date.parse(device.updated_at);
+
+          if (_lastDeviceUpdateTime === lastDeviceUpdateTime) {
+            // The device did not refresh
+            return;
+          }
+
+          // Ok, the device refreshed!
+          let nextRefreshTime = _lastDeviceUpdateTime + 60_000;
+          if (nextRefreshTime < Date.now() + 20_000) {
+            // We have less than 10 seconds before the next refresh, we wait for it to happen
+            await this.sleep(25_000);
+            const device = await Terminus.getDevice(this.deviceId);
+            _lastDeviceUpdateTime = Date.parse(device.updated_at);
+            nextRefreshTime = _lastDeviceUpdateTime + 60_000;
+          }
+          // Now, we should have at least 10 seconds before the next refresh
+
+          // Restauring the initial refresh rate
+          await this.restoreRefreshRate();
+
+          clearInterval(interval);
+          this.wakeUps.delete(stop);
+          resolve(nextRefreshTime);
+        } catch (error) {
+          if (isTransientError(error)) {
+            // The server is temporarily unavailable, we'll check again on the next tick
+            console.warn(
+              this.logPrefix,
+              `Failed to check the device, retrying in a minute: ${(error as Error).message}`,
+            );
+            return;
+          }
+
+          clearInterval(interval);
+          this.wakeUps.delete(stop);
+          reject(error);
+        }
+      }, 60_000);
+    });
+  }
+
+  /**
+   * Waits for the device to refresh, then refreshes the plugins right before its next refresh
+   */
+  private async synchronizeWithDevice() {
+    const nextRefreshTime = await this.waitForDeviceRefresh();
+    if (nextRefreshTime === null) return;
+
+    console.log(this.logPrefix, "Device refreshed, we can start the loop!");
+    await this.refreshDuePlugins(nextRefreshTime);
+    await this.sleep(nextRefreshTime - Date.now() + ONE_MINUTE);
+  }
+
+  /**
+   * Refreshes the due plugins 1 minute before the next device refresh,
+   * and checks that the device actually refreshed
+   */
+  private async runRefreshCycle() {
+    // Get fresh device information
+    const device = await Terminus.getDevice(this.deviceId);
+    const refreshRate = device.refresh_rate * 1000; // Convert to milliseconds
+    const deviceUpdatedAt = Date.parse(device.updated_at);
+    const deviceShouldUpdateAt = deviceUpdatedAt + refreshRate;
+
+    const timeToWait = deviceShouldUpdateAt - Date.now() - ONE_MINUTE;
+
+    console.log(
+      this.logPrefix,
+      `Waiting ${(timeToWait / 1000 / 60).toFixed(2)} minutes...`,
+    );
+    await this.sleep(timeToWait);
+    if (!this.running) return;
+
+    // Device should update in 60 seconds. We refresh the plugins that are due
+    this.refreshDuePlugins(deviceShouldUpdateAt);
+
+    await this.sleep(ONE_MINUTE);
+    if (!this.running) return;
+
+    // Device should have refreshed, we check if it actually did
+    let _device = await Terminus.getDevice(this.deviceId);
+    const _deviceUpdatedAt = Date.parse(_device.updated_at);
+
+    if (_deviceUpdatedAt === deviceUpdatedAt) {
+      // The device did not refresh... This is probably because it's disconnected from the server.
+      console.log(
+        this.logPrefix,
+        "Device disconnected from the server, waiting for it to reconnect...",
+      );
+      await this.synchronizeWithDevice();
+    }
+  }
+
+  private async startDeviceSynchronizedLoop() {
+    if (this.running) {
+      throw new Error("Device synchronized loop is already running");
+    }
+    if (this.stopped) return;
+
+    this.running = true;
+    let synchronized = false;
+
+    while (this.running) {
+      try {
+        if (!synchronized) {
+          console.log(this.logPrefix, "Waiting for device to refresh...");
+          await this.synchronizeWithDevice();
+          synchronized = true;
+        }
+
+        await this.runRefreshCycle();
+      } catch (error) {
+        if (isTransientError(error)) {
+          // Terminus is temporarily unavailable, the device will need to be synchronized again
+          console.warn(
+            this.logPrefix,
+            `Terminus unavailable, retrying in a minute: ${(error as Error).message}`,
+          );
+          synchronized = false;
+          await this.sleep(ONE_MINUTE);
+          continue;
+        }
+
+        if (error instanceof TerminusNotFoundError) {
+          console.error(
+            this.logPrefix,
+            "Device not found on the server anymore, stopping its loop",
+          );
+          this.running = false;
+          return;
+        }
+
+        this.running = false;
+        throw error;
+      }
+    }
+  }
+}
@@ -0,0 +1,133 @@
+import { Model } from "./terminus";
+
+export const DITHER_ALGORITHMS = [
+  "none",
+  "threshold",
+  "ordered",
+  "floyd-steinberg",
+  "atkinson",
+] as const;
+
+export type DitherAlgorithm = (typeof DITHER_ALGORITHMS)[number];
+
+/**
+ * Minimal image data, compatible with the canvas `ImageData`
+ */
+export interface RawImage {
+  data: Uint8ClampedArray;
+  width: number;
+  height: number;
+}
+
+/**
+ * 8x8 Bayer matrix, used by the ordered dithering
+ */
+const BAYER_8X8 = [
+  [0, 32, 8, 40, 2, 34, 10, 42],
+  [48, 16, 56, 24, 50, 18, 58, 26],
+  [12, 44, 4, 36, 14, 46, 6, 38],
+  [60, 28, 52, 20, 62, 30, 54, 22],
+  [3, 35, 11, 43, 1, 33, 9, 41],
+  [51, 19, 59, 27, 49, 17, 57, 25],
+  [15, 47, 7, 39, 13, 45, 5, 37],
+  [63, 31, 55, 23, 61, 29, 53, 21],
+];
+
+/**
+ * Error diffusion kernels, as [dx, dy, weight]
+ */
+const DIFFUSION_KERNELS: Record<"floyd-steinberg" | "atkinson", number[][]> = {
+  "floyd-steinberg": [
+    [1, 0, 7 / 16],
+    [-1, 1, 3 / 16],
+    [0, 1, 5 / 16],
+    [1, 1, 1 / 16],
+  ],
+  // Atkinson only diffuses 3/4 of the error, which keeps more contrast
+  atkinson: [
+    [1, 0, 1 / 8],
+    [2, 0, 1 / 8],
+    [-1, 1, 1 / 8],
+    [0, 1, 1 / 8],
+    [1, 1, 1 / 8],
+    [0, 2, 1 / 8],
+  ],
+};
+
+/**
+ * Get the number of grey levels a model can display
+ * @param model - Model of the device
+ * @returns Number of grey levels, between 2 and 256
+ */
+export function getPaletteLevels(
+  model: Pick<Model, "bit_depth" | "colors">,
+): number {
+  const levels = model.colors || 2 ** (model.bit_depth || 1);
+  return Math.min(Math.max(Math.round(levels), 2), 256);
+}
+
+export function isDitherAlgorithm(value: unknown): value is DitherAlgorithm {
+  return DITHER_ALGORITHMS.includes(value as DitherAlgorithm);
+}
+
+/**
+ * Converts an image to greyscale, reduced to a given number of levels, in place.
+ * Transparent pixels are considered white, like the e-ink paper.
+ *
+ * @param image - Image to quantize
+ * @param levels - Number of grey levels of the palette (2 for 1-bit, 4 for 2-bit, 16 for 4-bit)
+ * @param algorithm - Dithering algorithm used to spread the quantization error
+ */
+export function quantize(
+  image: RawImage,
+  levels: number,
+  algorithm: DitherAlgorithm,
+): void {
+  if (algorithm === "none") return;
+
+  const { data, width, height } = image;
+  const step = 255 / (levels - 1);
+  const nearest = (value: number) =>
+    Math.min(Math.max(Math.round(value / step), 0), levels - 1) * step;
+
+  // Greyscale values, composited over white
+  const grey = new Float32Array(width * height);
+  for (let i = 0; i < grey.length; i++) {
+    const r = data[i * 4];
+    const g = data[i * 4 + 1];
+    const b = data[i * 4 + 2];
+    const alpha = data[i * 4 + 3] / 255;
+    const luminance = 0.299 * r + 0.587 * g + 0.114 * b;
+    grey[i] = luminance * alpha + 255 * (1 - alpha);
+  }
+
+  for (let y = 0; y < height; y++) {
+    for (let x = 0; x < width; x++) {
+      const i = y * width + x;
+      const value = grey[i];
+
+      let quantized: number;
+      if (algorithm === "ordered") {
+        const offset = (BAYER_8X8[y % 8][x % 8] + 0.5) / 64 - 0.5;
+        quantized = nearest(value + offset * step);
+      } else {
+        quantized = nearest(value);
+      }
+
+      if (algorithm === "floyd-steinberg" || algorithm === "atkinson") {
+        const error = value - quantized;
+        for (const [dx, dy, weight] of DIFFUSION_KERNELS[algorithm]) {
+          const nx = x + dx;
+          const ny = y + dy;
+          if (nx < 0 || nx >= width || ny >= height) continue;
+          grey[ny * width + nx] += error * weight;
+        }
+      }
+
+      data[i * 4] = quantized;
+      data[i * 4 + 1] = quantized;
+      data[i * 4 + 2] = quantized;
+      data[i * 4 + 3] = 255;
+    }
+  }
+}
@@ -8,3 +8,7 @@ export function env(key: string): string {
 
     return process.env[key];
 }
+
+export function optionalEnv(key: string): string | undefined {
+    return process.env[key] || undefined;
+}
@@ -0,0 +1,174 @@
+import fs from "fs";
+import { DateTime, Settings } from "luxon";
+import { Device, Model, getModelScreenSize } from "./terminus";
+
+/**
+ * Options describing the device a plugin is rendered for when no Terminus server is involved
+ */
+export interface OfflineDeviceOptions {
+  width?: number;
+  height?: number;
+  bitDepth?: number;
+  friendlyId?: string;
+  /** Path to a JSON file containing a Terminus model, as returned by `GET /api/models/:id` */
+  modelPath?: string;
+}
+
+const DEFAULT_WIDTH = 800;
+const DEFAULT_HEIGHT = 480;
+const DEFAULT_BIT_DEPTH = 1;
+
+/**
+ * Loads a model from a JSON file. Both the raw model and the API response (`{ data: model }`) are accepted.
+ */
+export function loadModelFile(modelPath: string): Model {
+  let json: unknown;
+  try {
+    json = JSON.parse(fs.readFileSync(modelPath, "utf8"));
+  } catch (error) {
+    throw new Error(`Failed to load model from ${modelPath}: ${error}`);
+  }
+
+  const isObject = (value: unknown): value is Record<string, unknown> =>
+    typeof value === "object" && value !== null && !Array.isArray(value);
+
+  const model = isObject(json) && "data" in json ? json.data : json;
+  if (
+    !isObject(model) ||
+    typeof model.width !== "number" ||
+    typeof model.height !== "number"
+  ) {
+    throw new Error(
+      `Failed to load model from ${modelPath}: expected a model with a numeric width and height`,
+    );
+  }
+
+  return model as unknown as Model;
+}
+
+/**
+ * Command line options shared by the offline tools to describe the device, for `util.parseArgs()`
+ */
+export const OFFLINE_DEVICE_ARGS = {
+  width: { type: "string" },
+  height: { type: "string" },
+  model: { type: "string" },
+  "bit-depth": { type: "string" },
+  device: { type: "string" },
+  now: { type: "string" },
+} as const;
+
+export const OFFLINE_DEVICE_USAGE = `  --width <px>        Width of the screen (defaults to the model width, or 800)
+  --height <px>       Height of the screen (defaults to the model height, or 480)
+  --model <path>      JSON file of a Terminus model (as returned by GET /api/models/:id)
+  --bit-depth <bits>  Bit depth of the screen (defaults to the model bit depth, or 1)
+  --device <id>       Friendly ID of the fake device (defaults to OFFLINE)
+  --now <iso date>    Freezes the current time, e.g. 2025-01-06T10:30:00+01:00`;
+
+function parsePositiveInteger(value: string | undefined, name: string) {
+  if (value === undefined) return undefined;
+
+  const size = +value;
+  if (!Number.isInteger(size) || size <= 0) {
+    throw new Error(`Invalid ${name}: ${value}`);
+  }
+  return size;
+}
+
+/**
+ * Creates the offline device and model described by the command line options (see `OFFLINE_DEVICE_ARGS`).
+ * Freezes the clock if `--now` is given.
+ */
+export function createOfflineTargetFromArgs(values: {
+  [key in keyof typeof OFFLINE_DEVICE_ARGS]?: string;
+}): { device: Device; model: Model } {
+  if (values.now) freezeNow(values.now);
+
+  const model = createOfflineModel({
+    width: parsePositiveInteger(values.width, "width"),
+    height: parsePositiveInteger(values.height, "height"),
+    bitDepth: parsePositiveInteger(values["bit-depth"], "bit depth"),
+    modelPath: values.model,
+  });
+  const device = createOfflineDevice(model, values.device);
+
+  return { device, model };
+}
+
+/**
+ * Creates a fake model, loaded from `options.modelPath` if given.
+ * Explicit options take precedence over the model file.
+ */
+export function createOfflineModel(options: OfflineDeviceOptions = {}): Model {
+  const model = options.modelPath ? loadModelFile(options.modelPath) : null;
+  const now = DateTime.now().toISO()!;
+
+  return {
+    id: 0,
+    name: "offline",
+    label: "Offline model",
+    description: "",
+    kind: "terminus",
+    mime_type: "image/png",
+    colors: 0,
+    scale_factor: 1,
+    rotation: 0,
+    offset_x: 0,
+    offset_y: 0,
+    published_at: now,
+    created_at: now,
+    updated_at: now,
+    ...model,
+    width: options.width ?? model?.width ?? DEFAULT_WIDTH,
+    height: options.height ?? model?.height ?? DEFAULT_HEIGHT,
+    bit_depth: options.bitDepth ?? model?.bit_depth ?? DEFAULT_BIT_DEPTH,
+  };
+}
+
+/**
+ * Creates a fake device, used to render plugins without a Terminus server
+ * @param model - Model of the device
+ * @param friendlyId - Friendly ID of the device
+ */
+export function createOfflineDevice(model: Model, friendlyId?: string): Device {
+  const { width, height } = getModelScreenSize(model);
+  const now = DateTime.now().toISO()!;
+
+  return {
+    id: 0,
+    model_id: model.id,
+    playlist_id: 0,
+    friendly_id: friendlyId ?? "OFFLINE",
+    label: "Offline device",
+    mac_address: "00:00:00:00:00:00",
+    api_key: "",
+    firmware_version: "",
+    firmware_beta: false,
+    wifi: 0,
+    battery: 0,
+    refresh_rate: 900,
+    image_timeout: 0,
+    width,
+    height,
+    proxy: false,
+    firmware_update: false,
+    sleep_start_at: "",
+    sleep_stop_at: "",
+    created_at: now,
+    updated_at: now,
+  };
+}
+
+/**
+ * Freezes the luxon clock, so plugins always render the same moment
+ * @param iso - ISO date of the moment to freeze the clock at
+ */
+export function freezeNow(iso: string) {
+  const frozen = DateTime.fromISO(iso, { setZone: true });
+  if (!frozen.isValid) {
+    throw new Error(`Invalid date: ${iso}`);
+  }
+
+  const millis = frozen.toMillis();
+  Settings.now = () => millis;
+}
@@ -0,0 +1,330 @@
+import fs from "fs";
+import path from "path";
+import { interpolateConfig, redactIssues } from "./configInterpolation";
+import {
+  ConfigIssue,
+  ConfigValidationError,
+  ObjectSchema,
+  validateConfig,
+} from "./configSchema";
+import { DITHER_ALGORITHMS, DitherAlgorithm, getPaletteLevels } from "./dither";
+import { BasePlugin, PluginOutput } from "./plugins/basePlugin";
+import { Schedule, ScheduleConfig } from "./schedule";
+import { Device, Model } from "./terminus";
+
+export const PLUGINS_DIR = path.join(__dirname, "plugins");
+
+/**
+ * Class exported by the index.ts of a plugin. Its config is only known to be valid
+ * against its `configSchema`, so it is `unknown` until the plugin receives it.
+ */
+export type PluginClass = (new (
+  pluginName: string,
+  width: number,
+  height: number,
+  config: unknown,
+  deviceInfo: Device,
+  output?: PluginOutput,
+) => BasePlugin) & {
+  configSchema?: ObjectSchema;
+};
+
+export interface PluginDefinition {
+  name: string;
+  Plugin: PluginClass;
+  config: unknown;
+  /**
+   * Friendly IDs or MAC addresses of the devices this plugin is enabled for.
+   * When undefined, the plugin is enabled for every device.
+   */
+  devices?: string[];
+  schedule: Schedule;
+  dither: DitherAlgorithm;
+  /**
+   * Delay (ms) after which an unchanged screen is uploaded again
+   */
+  forceUploadAfter: number;
+  /**
+   * Settings of the push endpoint of the plugin. When undefined, nothing can be pushed to it.
+   */
+  push?: PushSettings;
+}
+
+export interface PushSettings {
+  /** Bearer token the push requests must send */
+  token: string;
+  /** Maximum size (bytes) of the body of the push requests */
+  maxPayloadSize: number;
+  /** Whether the plugin is rendered and uploaded right after a push */
+  refresh: boolean;
+}
+
+/**
+ * Schema of the config.json file of the plugins.
+ * The `config` property is validated against the schema of the plugin itself.
+ */
+const PLUGIN_FILE_SCHEMA = {
+  type: "object",
+  properties: {
+    enabled: { type: "boolean", required: true },
+    config: {
+      type: "object",
+      properties: {},
+      additionalProperties: true,
+      required: true,
+    },
+    devices: { type: "array", items: { type: "string" } },
+    schedule: {
+      type: "object",
+      properties: {
+        every: { type: "string" },
+        cron: { type: "string" },
+        windows: {
+          type: "array",
+          items: {
+            type: "object",
+            properties: {
+              from: { type: "string", required: true },
+              to: { type: "string", required: true },
+              days: { type: "array", items: { type: "string" } },
+            },
+          },
+        },
+        timezone: { type: "string" },
+      },
+      validate: (schedule) => {
+        try {
+          new Schedule(schedule as ScheduleConfig);
+        } catch (error) {
+          return (error as Error).message;
+        }
+      },
+    },
+    dither: { type: "string", enum: DITHER_ALGORITHMS, default: "none" },
+    forceUploadAfterHours: { type: "number", min: 0, default: 24 },
+    push: {
+      type: "object",
+      properties: {
+        token: { type: "string", minLength: 16, required: true },
+        maxPayloadKB: { type: "number", min: 1, default: 64 },
+        refresh: { type: "boolean", default: false },
+      },
+    },
+  },
+} as const satisfies ObjectSchema;
+
+/**
+ * Helper function to throw a custom error with a JSON parse error message
+ */
+function parseJson<T = unknown>(json: string, errorMessage: string): T {
+  try {
+    return JSON.parse(json);
+  } catch (err) {
+    throw new Error(errorMessage);
+  }
+}
+
+/**
+ * Whether a directory of the plugins directory is ignored: the example plugin is only a template
+ */
+export function isIgnoredPluginDirectory(pluginName: string): boolean {
+  return pluginName === "example";
+}
+
+/**
+ * Lists the names of the plugin directories
+ */
+export function listPluginNames(): string[] {
+  return fs.readdirSync(PLUGINS_DIR).filter((pluginName) => {
+    if (isIgnoredPluginDirectory(pluginName)) return false;
+    return fs.statSync(path.join(PLUGINS_DIR, pluginName)).isDirectory();
+  });
+}
+
+/**
+ * Loads and validates the config.json and the code of a plugin.
+ * `${ENV_VAR}` and `{"$file": path}` references are resolved first, then the plugin config
+ * is validated against the `configSchema` of the plugin class, and its defaults are applied.
+ * @param pluginName - Name of the plugin directory
+ * @param options.includeDisabled - Load the plugin even if it is disabled in its config.json
+ * @returns The plugin definition, or null if the plugin is disabled
+ * @throws ConfigValidationError listing all the issues of the config.json file
+ */
+export function loadPluginDefinition(
+  pluginName: string,
+  options: { includeDisabled?: boolean } = {},
+): PluginDefinition | null {
+  const pluginDirPath = path.join(PLUGINS_DIR, pluginName);
+  const pluginConfigPath = path.join(pluginDirPath, "config.json");
+  const pluginIdexPath = path.join(pluginDirPath, "index.ts");
+
+  if (!fs.existsSync(pluginDirPath)) {
+    throw new Error(`Plugin ${pluginName} does not exist`);
+  }
+
+  if (!fs.existsSync(pluginConfigPath)) {
+    throw new Error(`Plugin ${pluginName} is missing config.json file`);
+  }
+
+  if (!fs.existsSync(pluginIdexPath)) {
+    throw new Error(`Plugin ${pluginName} is missing index.ts file`);
+  }
+
+  const pluginFile = parseJson<unknown>(
+    fs.readFileSync(pluginConfigPath, "utf8"),
+    `Plugin ${pluginName} config.json is not valid JSON`,
+  );
+
+  if (
+    typeof pluginFile === "object" &&
+    pluginFile !== null &&
+    "enabled" in pluginFile &&
+    pluginFile.enabled === false &&
+    !options.includeDisabled
+  ) {
+    console.log(`Plugin ${pluginName} is disabled in config.json`);
+    return null;
+  }
+
+  // Environment variables and secret files are resolved before the validation
+  const interpolation = interpolateConfig(pluginFile, pluginDirPath);
+  const { value: pluginConfig, issues } = validateConfig(
+    PLUGIN_FILE_SCHEMA,
+    interpolation.value,
+  );
+
+  const Plugin = require(pluginIdexPath).default;
+
+  if (!(Plugin instanceof Function)) {
+    throw new Error(
+      `Plugin ${pluginName} index.ts doesn't export a default class`,
+    );
+  }
+
+  let config: unknown = pluginConfig.config;
+  const configSchema = (Plugin as PluginClass).configSchema;
+  if (configSchema && pluginConfig.config) {
+    const result = validateConfig(
+      configSchema,
+      pluginConfig.config,
+      "$.config",
+    );
+    config = result.value;
+    issues.push(...result.issues);
+  }
+
+  // An unresolved reference is only reported once, not also as a missing value
+  const unresolvedPaths = new Set(interpolation.issues.map((i) => i.path));
+  const allIssues = [
+    ...interpolation.issues,
+    ...issues.filter((issue) => !unresolvedPaths.has(issue.path)),
+  ];
+
+  if (allIssues.length) {
+    throw new ConfigValidationError(
+      `Plugin ${pluginName} config.json is invalid`,
+      redactIssues(allIssues, interpolation.secrets),
+    );
+  }
+
+  return {
+    name: pluginName,
+    Plugin,
+    config,
+    devices: pluginConfig.devices,
+    schedule: new Schedule(pluginConfig.schedule),
+    dither: pluginConfig.dither,
+    forceUploadAfter: pluginConfig.forceUploadAfterHours * 60 * 60 * 1000,
+    push: pluginConfig.push && {
+      token: pluginConfig.push.token,
+      maxPayloadSize: pluginConfig.push.maxPayloadKB * 1024,
+      refresh: pluginConfig.push.refresh,
+    },
+  };
+}
+
+/**
+ * Creates an instance of a plugin for a device
+ * @param definition - Definition of the plugin
+ * @param device - Device the plugin renders for
+ * @param model - Model of the device
+ */
+export function instantiatePlugin(
+  definition: PluginDefinition,
+  device: Device,
+  model: Model,
+): BasePlugin {
+  return new definition.Plugin(
+    definition.name,
+    device.width,
+    device.height,
+    definition.config,
+    device,
+    {
+      levels: getPaletteLevels(model),
+      dither: definition.dither,
+      panel: {
+        width: model.width,
+        height: model.height,
+        rotation: model.rotation || 0,
+        scaleFactor: model.scale_factor || 1,
+        offsetX: model.offset_x || 0,
+        offsetY: model.offset_y || 0,
+      },
+    },
+  );
+}
+
+/**
+ * Loads all the enabled plugins. The plugins without a config.json are skipped.
+ * All the plugins are loaded before reporting errors, so every problem is reported at once.
+ * @throws ConfigValidationError listing the issues of all the plugins
+ */
+export function discoverPlugins(): PluginDefinition[] {
+  const definitions = [] as PluginDefinition[];
+  const issues = [] as ConfigIssue[];
+
+  for (const pluginName of listPluginNames()) {
+    // Built-in plugins, like the mashup, are only loaded once configured
+    if (!fs.existsSync(path.join(PLUGINS_DIR, pluginName, "config.json"))) {
+      console.log(`Plugin ${pluginName} has no config.json, skipped`);
+      continue;
+    }
+
+    try {
+      const definition = loadPluginDefinition(pluginName);
+      if (definition) definitions.push(definition);
+    } catch (error) {
+      if (error instanceof ConfigValidationError) {
+        issues.push(
+          ...error.issues.map((issue) => ({
+            ...issue,
+            path: `${pluginName}/config.json ${issue.path}`,
+          })),
+        );
+      } else {
+        issues.push({ path: pluginName, message: (error as Error).message });
+      }
+    }
+  }
+
+  if (issues.length) {
+    throw new ConfigValidationError("Invalid plugin configuration", issues);
+  }
+
+  return definitions;
+}
+
+/**
+ * Removes the modules of a plugin from the require cache, so the next
+ * `loadPluginDefinition()` call loads the latest version of its code
+ */
+export function unloadPluginModules(pluginName: string) {
+  const pluginDirPath = path.join(PLUGINS_DIR, pluginName) + path.sep;
+
+  for (const modulePath of Object.keys(require.cache)) {
+    if (modulePath.startsWith(pluginDirPath)) {
+      delete require.cache[modulePath];
+    }
+  }
+}
@@ -1,296 +1,463 @@
 import fs from "fs";
 import path from "path";
-import { BasePlugin } from "./plugins/basePlugin";
-import { Device } from "./terminus";
+import { ConfigValidationError } from "./configSchema";
+import DeviceLoop, { deviceMatches } from "./deviceloop";
+import { optionalEnv } from "./env";
+import {
+  discoverPlugins,
+  isIgnoredPluginDirectory,
+  loadPluginDefinition,
+  PluginDefinition,
+  PLUGINS_DIR,
+  PushSettings,
+  unloadPluginModules,
+} from "./pluginLoader";
+import { PushResult, PushServer, PushTarget } from "./pushServer";
+import { Device, isTransientError } from "./terminus";
 import * as Terminus from "./terminus";
 
 /**
- * Helper function to throw a custom error with a JSON parse error message
+ * Delay (ms) during which the changes of a plugin are grouped before reloading it,
+ * as editors often write a file several times when saving it
  */
-function parseJson<T = unknown>(json: string, errorMessage: string): T {
-  try {
-    return JSON.parse(json);
-  } catch (err) {
-    throw new Error(errorMessage);
-  }
-}
+const RELOAD_DEBOUNCE = 500;
 
-function sleep(ms: number) {
-  return new Promise((resolve) => setTimeout(resolve, ms));
-}
+/**
+ * Delay (ms) before identifying again a device that failed with a transient error
+ */
+const DEVICE_RETRY_DELAY = 60 * 1000;
 
-export default class PluginLoop {
-  plugins: BasePlugin[] = [];
-  device: Device | null = null;
+const HOT_RELOAD_MODES = ["config", "code", "off"] as const;
+type HotReloadMode = (typeof HOT_RELOAD_MODES)[number];
 
-  private running = false;
+export default class PluginLoop implements PushTarget {
+  devices: DeviceLoop[] = [];
 
-  private markDeviceAsIdentified: (() => void) | undefined;
-  private devicesIdentified = new Promise<void>((resolve) => {
-    this.markDeviceAsIdentified = resolve;
-  });
+  /**
+   * Push settings of the loaded plugins that accept pushes
+   */
+  private pushSettings = new Map<string, PushSettings>();
 
-  constructor() {
-    this.identifyDevice()
-      .then(() => {
-        return this.discoverPlugins();
-      })
-      .then(() => {
-        if (this.markDeviceAsIdentified) this.markDeviceAsIdentified();
-      });
-  }
+  private pushServer: PushServer | null = null;
 
-  private async identifyDevice() {
-    const device = await Terminus.getDevice(1);
-    if (!device) throw new Error("No device found");
-    this.device = device;
+  /**
+   * Plugins waiting to be reloaded, and whether their code changed
+   */
+  private pendingReloads = new Map<
+    string,
+    { timer: NodeJS.Timeout; codeChanged: boolean }
+  >();
 
-    // Fixing width / height
-    const model = await Terminus.getModel(device.model_id);
-    const isRotated = (model.rotation + 90) % 180 === 0;
-    this.device.width = isRotated ? model.height : model.width;
-    this.device.height = isRotated ? model.width : model.height;
-  }
+  /**
+   * Reloads are applied one at a time, in the order of the changes
+   */
+  private reloads = Promise.resolve();
 
-  private discoverPlugins() {
-    if (!this.device) throw new Error("Device not identified");
+  private watcher: fs.FSWatcher | null = null;
 
-    const pluginDirs = fs.readdirSync(path.join(__dirname, "plugins"));
+  private shuttingDown = false;
 
-    for (const pluginName of pluginDirs) {
-      if (pluginName === "example") continue;
-      const stats = fs.statSync(path.join(__dirname, "plugins", pluginName));
-      if (!stats.isDirectory()) {
-        continue;
-      }
+  private started = false;
 
-      const pluginDirPath = path.join(__dirname, "plugins", pluginName);
-      const pluginConfigPath = path.join(pluginDirPath, "config.json");
-      const pluginIdexPath = path.join(pluginDirPath, "index.ts");
+  /**
+   * Timers identifying again the devices that failed with a transient error
+   */
+  private deviceRetries = new Set<NodeJS.Timeout>();
 
-      if (!fs.existsSync(pluginConfigPath)) {
-        throw new Error(`Plugin ${pluginName} is missing config.json file`);
-      }
+  /**
+   * Discovery of the plugins and the devices, started as soon as the loop is created
+   */
+  private devicesIdentified: Promise<void>;
 
-      if (!fs.existsSync(pluginIdexPath)) {
-        throw new Error(`Plugin ${pluginName} is missing index.ts file`);
-      }
+  constructor() {
+    this.devicesIdentified = this.identifyDevices();
+    // The error is reported by start()
+    this.devicesIdentified.catch(() => {});
+  }
 
-      const pluginConfig = parseJson<{
-        enabled: boolean;
-        config: unknown;
-      }>(
-        fs.readFileSync(pluginConfigPath, "utf8"),
-        `Plugin ${pluginName} config.json is not valid JSON`,
-      );
+  /**
+   * Lists the devices to drive.
+   * If `TERMINUS_DEVICES` is set (comma separated friendly IDs or MAC addresses),
+   * only those devices are used, otherwise all the devices of the server are used.
+   */
+  private async listDevices(): Promise<Device[]> {
+    const devices = await Terminus.getDevices();
+    const wantedDevices = optionalEnv("TERMINUS_DEVICES");
 
-      if (!("enabled" in pluginConfig)) {
-        throw new Error(
-          `Plugin ${pluginName} config.json is missing the 'enabled' property`,
-        );
-      }
+    if (!wantedDevices) {
+      if (!devices.length) throw new Error("No device found");
+      return devices;
+    }
 
-      if (pluginConfig.enabled === false) {
-        console.log(`Plugin ${pluginName} is disabled in config.json`);
-        continue;
-      }
+    const selectedDevices = [] as Device[];
+    for (const identifier of wantedDevices.split(",")) {
+      if (!identifier.trim()) continue;
 
-      if (!("config" in pluginConfig)) {
-        throw new Error(
-          `Plugin ${pluginName} config.json is missing the 'config' property`,
-        );
+      const device = devices.find((d) => deviceMatches(d, identifier));
+      if (!device) {
+        throw new Error(`No device found matching '${identifier.trim()}'`);
       }
+      selectedDevices.push(device);
+    }
 
-      const Plugin = require(pluginIdexPath).default;
+    if (!selectedDevices.length) throw new Error("No device found");
+    return selectedDevices;
+  }
 
-      if (!(Plugin instanceof Function)) {
-        throw new Error(
-          `Plugin ${pluginName} index.ts doesn't export a default class`,
-        );
-      }
+  private async identifyDevices() {
+    const definitions = discoverPlugins();
+    for (const definition of definitions) {
+      this.updatePushSettings(definition.name, definition);
+    }
 
-      this.plugins.push(
-        new Plugin(
-          pluginName,
-          this.device.width,
-          this.device.height,
-          pluginConfig.config,
-          this.device,
-        ),
-      );
+    for (const device of await this.listDevices()) {
+      await this.addDevice(device, definitions);
     }
+    this.updateDependencyPushSettings();
   }
 
-  private async refreshScreenForPlugin(plugin: BasePlugin) {
-    if (!this.device) throw new Error("Device not identified");
-    plugin.log("Refreshing screen", "info");
+  /**
+   * Identifies a device and loads its plugins. When Terminus fails with a transient error,
+   * the device is identified again later, so it doesn't prevent the other devices from running.
+   * @param definitions - Plugins to load, discovered again when the device is retried
+   */
+  private async addDevice(device: Device, definitions?: PluginDefinition[]) {
+    const deviceLoop = new DeviceLoop(device);
+
+    try {
+      await deviceLoop.identifyDevice();
+      deviceLoop.loadPlugins(definitions ?? discoverPlugins());
+    } catch (error) {
+      if (!isTransientError(error)) throw error;
+
+      console.warn(
+        deviceLoop.logPrefix,
+        `Failed to identify the device, retrying in a minute: ${(error as Error).message}`,
+      );
+      this.retryDevice(device);
+      return;
+    }
 
-    const b64 = await plugin.renderToBase64();
+    this.devices.push(deviceLoop);
+    if (this.started) {
+      this.updateDependencyPushSettings();
+      this.startDevice(deviceLoop);
+    }
+  }
 
-    // Removing the old screen
-    const screens = await Terminus.getScreens();
+  private retryDevice(device: Device) {
+    const timer = setTimeout(() => {
+      this.deviceRetries.delete(timer);
+      if (this.shuttingDown) return;
 
-    const screenPrefix = plugin.pluginName + "_" + this.device.friendly_id;
+      // The plugins may have changed since the startup
+      this.addDevice(device).catch((error) => {
+        console.error(
+          `[${device.friendly_id}] Failed to identify the device, giving up:`,
+          error,
+        );
+      });
+    }, DEVICE_RETRY_DELAY);
+    this.deviceRetries.add(timer);
+  }
 
-    for (const screen of screens) {
-      if (screen.name.startsWith(screenPrefix)) {
-        await Terminus.removeScreen(screen.id);
-      }
-    }
+  /**
+   * Runs the synchronized loop of a device
+   */
+  private startDevice(device: DeviceLoop): Promise<void> {
+    return device.start().catch((error) => {
+      console.error(device.logPrefix, "Device loop crashed:", error);
+    });
+  }
 
-    const screenName = screenPrefix + "_" + Date.now().toString(36);
+  /**
+   * Stops everything before exiting: the hot reload first, then the devices,
+   * which finish their upload in progress, restore their refresh rate and stop their plugins.
+   * A second signal exits immediately.
+   */
+  private async shutdown(signal: NodeJS.Signals) {
+    if (this.shuttingDown) {
+      console.warn(`Received ${signal} again, exiting without waiting`);
+      process.exit(1);
+    }
 
-    // Adding the new screen
-    const id = await Terminus.addScreen(
-      b64,
-      screenName,
-      screenName,
-      screenName + ".png",
-      this.device.model_id,
+    this.shuttingDown = true;
+    console.log(`Received ${signal}, shutting down...`);
+
+    this.watcher?.close();
+    await this.pushServer?.stop();
+    for (const { timer } of this.pendingReloads.values()) clearTimeout(timer);
+    for (const timer of this.deviceRetries) clearTimeout(timer);
+    this.pendingReloads.clear();
+    await this.reloads;
+
+    await Promise.all(
+      this.devices.map((device) =>
+        device.stop().catch((error) => {
+          console.error(device.logPrefix, "Failed to stop device loop:", error);
+        }),
+      ),
     );
 
-    // Adding the screen to the playlist
-    await Terminus.addScreenToPlaylist(this.device.playlist_id, id);
+    console.log("Shutdown complete");
+    process.exit();
+  }
 
-    plugin.log("Screen refreshed", "info");
+  /**
+   * Gets the hot reload mode from `PLUGINS_HOT_RELOAD`:
+   * `config` (default) reloads plugins when their config.json changes,
+   * `code` also reloads them when their source changes, and `off` disables hot reload
+   */
+  private get hotReloadMode(): HotReloadMode {
+    const mode = optionalEnv("PLUGINS_HOT_RELOAD") ?? "config";
+    if (!HOT_RELOAD_MODES.includes(mode as HotReloadMode)) {
+      throw new Error(
+        `Invalid PLUGINS_HOT_RELOAD '${mode}', expected one of ${HOT_RELOAD_MODES.join(", ")}`,
+      );
+    }
+    return mode as HotReloadMode;
   }
 
-  async start() {
-    await this.devicesIdentified;
+  /**
+   * Watches the plugins directory, and reloads the plugins whose files changed
+   */
+  private watchPlugins() {
+    const mode = this.hotReloadMode;
+    if (mode === "off") return;
 
-    // Initialize all plugins
-    for (const plugin of this.plugins) {
-      await plugin.onStart();
-      plugin.log("Plugin started", "info");
-    }
+    this.watcher = fs.watch(
+      PLUGINS_DIR,
+      { recursive: true },
+      (_event, filename) => {
+        if (!filename) return;
 
-    // Start the device-synchronized refresh loop
-    this.startDeviceSynchronizedLoop();
+        const [pluginName, ...parts] = filename.toString().split(path.sep);
+        const file = parts.join(path.sep);
+
+        // Files at the root of the plugins directory, like basePlugin.ts, are not plugins
+        if (!file || isIgnoredPluginDirectory(pluginName)) return;
+
+        const isConfig = file === "config.json";
+        const isCode = /\.(ts|js)$/.test(file);
+        if (!isConfig && !(isCode && mode === "code")) return;
+
+        this.scheduleReload(pluginName, isCode);
+      },
+    );
+
+    console.log(
+      `Watching ${mode === "code" ? "the config and code" : "the config"} of the plugins for changes`,
+    );
+  }
+
+  private scheduleReload(pluginName: string, codeChanged: boolean) {
+    const pending = this.pendingReloads.get(pluginName);
+    if (pending) clearTimeout(pending.timer);
+
+    const timer = setTimeout(() => {
+      this.pendingReloads.delete(pluginName);
+      this.reloads = this.reloads
+        .then(() => this.reloadPlugin(pluginName, codeChanged))
+        .then(() => this.reloadDependents(pluginName))
+        .then(() => this.updateDependencyPushSettings());
+    }, RELOAD_DEBOUNCE);
+
+    this.pendingReloads.set(pluginName, {
+      timer,
+      codeChanged: codeChanged || !!pending?.codeChanged,
+    });
   }
 
-  private async refreshAllPlugins() {
-    console.log("Refreshing all active plugins...");
+  /**
+   * Loads the new definition of a plugin, and replaces the plugin on every device.
+   * If the new definition is invalid, or the new plugin fails to start on a device, the running plugin is kept.
+   * @param pluginName - Name of the plugin
+   * @param codeChanged - Whether the code of the plugin must be loaded again
+   */
+  private async reloadPlugin(pluginName: string, codeChanged: boolean) {
+    if (codeChanged) unloadPluginModules(pluginName);
 
-    for (const plugin of this.plugins) {
+    let definition: PluginDefinition | null = null;
+    if (fs.existsSync(path.join(PLUGINS_DIR, pluginName, "config.json"))) {
       try {
-        await this.refreshScreenForPlugin(plugin);
+        definition = loadPluginDefinition(pluginName);
       } catch (error) {
-        console.error(`Failed to refresh plugin ${plugin.pluginName}:`, error);
+        console.error(
+          `Failed to reload plugin ${pluginName}, keeping the running version:`,
+          (error as Error).message,
+        );
+        return;
       }
     }
+
+    console.log(`Reloading plugin ${pluginName}...`);
+    this.updatePushSettings(pluginName, definition);
+
+    for (const device of this.devices) {
+      await device.reloadPlugin(pluginName, definition).catch((error) => {
+        console.error(
+          device.logPrefix,
+          `Failed to reload plugin ${pluginName}, keeping the running version:`,
+          error,
+        );
+      });
+    }
   }
 
   /**
-   * Waits for the device to be connected to the server, and to refresh.
-   * Guarantees that the device will refresh in at least 20 seconds, and at most 60 seconds after the promise resolves.
-   *
-   * @returns Promise<number> The time when the device will refresh next
+   * Reloads the plugins rendering a plugin, e.g. the mashups displaying it,
+   * so they use its new config and code
    */
-  private async waitForDeviceRefresh(): Promise<number> {
-    const device = await Terminus.getDevice(1);
-    const initialRefreshRate = device.refresh_rate * 1000;
-    const lastDeviceUpdateTime = Date.parse(device.updated_at);
-
-    async function onSigInt() {
-      // Restore the initial refresh rate
-      await Terminus.updateDevice(1, {
-        refresh_rate: initialRefreshRate / 1000,
-      });
-      process.exit();
+  private async reloadDependents(pluginName: string) {
+    const dependents = new Set<string>();
+    for (const device of this.devices) {
+      for (const plugin of device.plugins) {
+        if (plugin.dependencies.includes(pluginName)) {
+          dependents.add(plugin.pluginName);
+        }
+      }
     }
 
-    process.on("SIGINT", onSigInt);
-
-    const timeBeforeNextRefresh =
-      lastDeviceUpdateTime + initialRefreshRate - Date.now();
-    console.log(
-      `Expecting device to refresh in ${(timeBeforeNextRefresh / 1000 / 60).toFixed(2)} minutes`,
-    );
-
-    // After the next refresh, the device will refresh every 60 seconds.
-    // We do this because we need 2 consecutive refreshes to be able to properly refresh the plugins in time:
-    // 1st refresh: Confirmation that the device is back online
-    // 2nd refresh: Refreshing the plugins
-    await Terminus.updateDevice(1, { refresh_rate: 60 });
-
-    return new Promise<number>((resolve, reject) => {
-      const interval = setInterval(async () => {
-        const device = await Terminus.getDevice(1);
-        let _lastDeviceUpdateTime = Date.parse(device.updated_at);
-
-        if (_lastDeviceUpdateTime === lastDeviceUpdateTime) {
-          // The device did not refresh
-          return;
-        }
+    for (const dependent of dependents) {
+      await this.reloadPlugin(dependent, false);
+    }
+  }
 
-        // Ok, the device refreshed!
-        let nextRefreshTime = _lastDeviceUpdateTime + 60_000;
-        if (nextRefreshTime < Date.now() + 20_000) {
-          // We have less than 10 seconds before the next refresh, we wait for it to happen
-          await sleep(25_000);
-          const device = await Terminus.getDevice(1);
-          _lastDeviceUpdateTime = Date.parse(device.updated_at);
-          nextRefreshTime = _lastDeviceUpdateTime + 60_000;
-        }
-        // Now, we should have at least 10 seconds before the next refresh
+  private updatePushSettings(
+    pluginName: string,
+    definition: PluginDefinition | null,
+  ) {
+    if (definition?.push) this.pushSettings.set(pluginName, definition.push);
+    else this.pushSettings.delete(pluginName);
+  }
 
-        // Restauring the initial refresh rate
-        await Terminus.updateDevice(1, { refresh_rate: initialRefreshRate / 1000 });
+  /**
+   * Starts the push endpoint if `PUSH_PORT` is set
+   */
+  private startPushServer() {
+    const port = optionalEnv("PUSH_PORT");
+    if (!port) return;
 
-        process.off("SIGINT", onSigInt);
+    if (!/^\d+$/.test(port)) {
+      throw new Error(`Invalid PUSH_PORT '${port}', expected a port number`);
+    }
 
-        clearInterval(interval);
-        resolve(nextRefreshTime);
-      }, 60_000);
-    });
+    this.pushServer = new PushServer(this, Number(port));
+    this.pushServer.start();
   }
 
-  private async startDeviceSynchronizedLoop() {
-    if (this.running) {
-      throw new Error("Device synchronized loop is already running");
+  /**
+   * Registers the push settings of the plugins only rendered by other plugins,
+   * e.g. the disabled plugins of a mashup, as they are not discovered on their own
+   */
+  private updateDependencyPushSettings() {
+    const names = new Set(
+      this.devices.flatMap((device) =>
+        device.plugins.map((plugin) => plugin.pluginName),
+      ),
+    );
+    const dependencies = new Set(
+      this.devices.flatMap((device) =>
+        device.plugins.flatMap((plugin) => plugin.dependencies),
+      ),
+    );
+
+    for (const name of dependencies) {
+      if (names.has(name)) continue;
+      try {
+        const definition = loadPluginDefinition(name, {
+          includeDisabled: true,
+        });
+        this.updatePushSettings(name, definition);
+      } catch {
+        // The plugins rendering it report why it can't be loaded
+        this.pushSettings.delete(name);
+      }
     }
+  }
 
-    this.running = true;
+  /**
+   * Get the plugins a push to a plugin is delivered to on a device:
+   * the plugin itself, and the plugins rendering it, e.g. mashups
+   */
+  private getPushTargets(device: DeviceLoop, pluginName: string) {
+    return device.plugins.filter(
+      (plugin) =>
+        plugin.pluginName === pluginName ||
+        plugin.dependencies.includes(pluginName),
+    );
+  }
 
-    const oneMinute = 60 * 1000; // 1 minute in milliseconds
+  getPushSettings(pluginName: string): PushSettings | undefined {
+    const running = this.devices.some(
+      (device) => this.getPushTargets(device, pluginName).length > 0,
+    );
+    return running ? this.pushSettings.get(pluginName) : undefined;
+  }
 
-    console.log("Waiting for device to refresh...");
-    const nextRefreshTime = await this.waitForDeviceRefresh();
-    console.log("Device refreshed, we can start the loop!");
-    await this.refreshAllPlugins();
-    await sleep(nextRefreshTime - Date.now() + oneMinute);
+  /**
+   * Stores pushed variables in the plugin on every device, including in the mashups displaying it.
+   * With `refresh`, the plugin and the plugins rendering it are rendered and uploaded right away.
+   */
+  async pushVariables(
+    pluginName: string,
+    variables: Record<string, unknown>,
+    refresh: boolean,
+  ): Promise<PushResult> {
+    const result: PushResult = { refreshed: [], failed: [] };
 
-    while (true) {
-      // Get fresh device information
-      const device = await Terminus.getDevice(1);
-      const refreshRate = device.refresh_rate * 1000; // Convert to milliseconds
-      const deviceUpdatedAt = Date.parse(device.updated_at);
-      const deviceShouldUpdateAt = deviceUpdatedAt + refreshRate;
+    for (const device of this.devices) {
+      const targets = this.getPushTargets(device, pluginName);
 
-      const timeToWait = deviceShouldUpdateAt - Date.now() - oneMinute;
+      // The instances of every device write the same file, one after another
+      for (const plugin of targets) await plugin.pushTo(pluginName, variables);
+      if (!refresh || !targets.length) continue;
 
-      console.log(`Waiting ${(timeToWait / 1000 / 60).toFixed(2)} minutes...`);
-      await sleep(timeToWait);
+      try {
+        let refreshed = false;
+        for (const plugin of targets) {
+          const done = await device.refreshPluginNow(plugin.pluginName);
+          refreshed ||= done;
+        }
+        if (refreshed) result.refreshed.push(device.device.friendly_id);
+      } catch (error) {
+        console.error(
+          device.logPrefix,
+          `Failed to refresh plugin ${pluginName} after a push:`,
+          error,
+        );
+        result.failed.push({
+          device: device.device.friendly_id,
+          error: (error as Error).message,
+        });
+      }
+    }
 
-      // Device should update in 60 seconds. We refresh all plugins
-      this.refreshAllPlugins();
+    return result;
+  }
 
-      await sleep(oneMinute);
+  async start() {
+    // SIGTERM is sent by `docker stop`
+    process.on("SIGINT", (signal) => this.shutdown(signal));
+    process.on("SIGTERM", (signal) => this.shutdown(signal));
+
+    try {
+      await this.devicesIdentified;
+    } catch (error) {
+      // The config issues and the Terminus errors are explained by their message, the stack trace is noise
+      const expected =
+        error instanceof ConfigValidationError ||
+        error instanceof Terminus.TerminusError;
+      console.error("Failed to start:", expected ? error.message : error);
+      process.exit(1);
+    }
+    if (this.shuttingDown) return;
 
-      // Device should have refreshed, we check if it actually did
-      let _device = await Terminus.getDevice(1);
-      const _deviceUpdatedAt = Date.parse(_device.updated_at);
+    this.watchPlugins();
+    this.startPushServer();
 
-      if (_deviceUpdatedAt === deviceUpdatedAt) {
-        // The device did not refresh... This is probably because it's disconnected from the server.
-        console.log(
-          "Device disconnected from the server, waiting for it to reconnect...",
-        );
-        const nextRefreshTime = await this.waitForDeviceRefresh();
-        console.log("Device back online, we can start the loop!");
-        await this.refreshAllPlugins();
-        await sleep(nextRefreshTime - Date.now() + oneMinute);
-      }
-    }
+    // Each device runs its own synchronized loop. The devices identified later start right away
+    this.started = true;
+    await Promise.all(this.devices.map((device) => this.startDevice(device)));
   }
 }
@@ -1,6 +1,18 @@
 import { Canvas, createCanvas, GlobalFonts } from "@napi-rs/canvas";
 import { Device } from "../terminus";
+import { ObjectSchema } from "../configSchema";
+import { DitherAlgorithm, quantize } from "../dither";
 import { DateTime } from "luxon";
+import { optionalEnv } from "../env";
+import * as layout from "./layout";
+import {
+  Box,
+  DividerOptions,
+  FontOptions,
+  PanelOptions,
+  TextLayout,
+  TextOptions,
+} from "./layout";
 import path from 'path';
 import fs from 'fs';
 
@@ -21,8 +33,42 @@ GlobalFonts.registerFromPath(
     'Roboto'
 );
 
+/**
+ * Physical characteristics of the panel, used to turn the logical canvas
+ * into the bitmap the panel displays
+ */
+export interface PanelGeometry {
+  /** Physical width of the panel, in pixels */
+  width: number;
+  /** Physical height of the panel, in pixels */
+  height: number;
+  /** Clockwise rotation applied to the logical canvas, in degrees */
+  rotation: number;
+  /** Number of physical pixels per logical pixel */
+  scaleFactor: number;
+  offsetX: number;
+  offsetY: number;
+}
+
+/**
+ * Describes how the rendered image is adapted to the panel before upload
+ */
+export interface PluginOutput {
+  /** Number of grey levels the panel can display */
+  levels?: number;
+  /** Dithering algorithm used to reduce the image to the panel palette */
+  dither?: DitherAlgorithm;
+  /** Geometry of the panel. When undefined, the canvas is uploaded as is */
+  panel?: PanelGeometry;
+}
 
 export abstract class BasePlugin<TConfig = any> {
+  /**
+   * Schema of the `config` property of the plugin config.json.
+   * When defined, the config is validated and its defaults are applied before the plugin is created.
+   */
+  static configSchema?: ObjectSchema;
+
   public readonly canvas: Canvas;
 
   constructor(
@@ -31,6 +77,7 @@ export abstract class BasePlugin<TConfig = any> {
     public readonly height: number,
     public readonly config: TConfig,
     public readonly deviceInfo: Device,
+    public readonly output: PluginOutput = {},
   ) {
     if (new.target === BasePlugin) {
       throw new Error(
@@ -62,6 +109,130 @@ export abstract class BasePlugin<TConfig = any> {
     return this.canvas.height;
   }
 
+  /**
+   * Get the directory where the plugin can persist data across restarts, creating it if needed.
+   * It is `<DATA_DIR>/<plugin name>`, with `DATA_DIR` defaulting to `./data`
+   */
+  protected get dataDir(): string {
+    const dir = path.resolve(optionalEnv("DATA_DIR") ?? "data", this.pluginName);
+    fs.mkdirSync(dir, { recursive: true });
+    return dir;
+  }
+
+  /**
+   * Get the variables last pushed to the plugin with `POST /plugins/<name>/variables`.
+   * They are persisted in `dataDir`, so they survive restarts and are shared by all the devices.
+   */
+  protected get pushedVariables(): Record<string, unknown> {
+    try {
+      return JSON.parse(fs.readFileSync(this.pushedVariablesPath, "utf8"));
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code !== "ENOENT") {
+        this.log(`Ignoring unreadable pushed variables: ${error}`, "warn");
+      }
+      return {};
+    }
+  }
+
+  private get pushedVariablesPath(): string {
+    return path.join(this.dataDir, "push.json");
+  }
+
+  /**
+   * Get the box of the whole screen, to split with `rows()`, `columns()`, `grid()` and `inset()` from `./layout`
+   */
+  get bounds(): Box {
+    return { x: 0, y: 0, width: this.screenWidth, height: this.screenHeight };
+  }
+
+  /**
+   * Wrap text on lines fitting within a width, measured with the current font
+   * @param maxLines - Maximum number of lines. The last line is truncated when the text doesn't fit
+   */
+  protected wrapText(
+    text: string,
+    maxWidth: number,
+    maxLines?: number,
+  ): string[] {
+    return layout.wrapText(this.ctx, text, maxWidth, maxLines);
+  }
+
+  /**
+   * Truncate text with an ellipsis to fit within a width, measured with the current font
+   */
+  protected truncateText(text: string, maxWidth: number): string {
+    return layout.truncateText(this.ctx, text, maxWidth);
+  }
+
+  /**
+   * Set the font to the largest size, down to `minFontSize`, at which text fits on one line
+   * @returns The font size used
+   */
+  protected fitFont(
+    text: string,
+    maxWidth: number,
+    font: FontOptions,
+    minFontSize?: number,
+  ): number {
+    return layout.fitFont(this.ctx, text, maxWidth, font, minFontSize);
+  }
+
+  /**
+   * Draw text in a box, wrapped, truncated or shrunk to fit depending on `options.overflow`
+   * @returns The lines drawn, the font size used and their height
+   */
+  protected drawText(text: string, box: Box, options: TextOptions): TextLayout {
+    return layout.drawText(this.ctx, text, box, options);
+  }
+
+  /**
+   * Draw a rectangle, with rounded corners, a fill and an outline
+   */
+  protected drawPanel(box: Box, options?: PanelOptions): void {
+    layout.drawPanel(this.ctx, box, options);
+  }
+
+  /**
+   * Draw a line through the middle of a box, along its longest side
+   */
+  protected drawDivider(box: Box, options?: DividerOptions): void {
+    layout.drawDivider(this.ctx, box, options);
+  }
+
+  /**
+   * Names of the other plugins this plugin renders, e.g. the plugins of a mashup.
+   * The plugin is reloaded when one of them is reloaded.
+   */
+  get dependencies(): string[] {
+    return [];
+  }
+
+  /**
+   * Store the variables pushed to the plugin, replacing the previous ones, then call `onPush()`
+   * @param variables - Merge variables of the push request
+   */
+  async push(variables: Record<string, unknown>): Promise<void> {
+    const filePath = this.pushedVariablesPath;
+
+    // Writing to a temporary file first, so a crash can't leave truncated variables
+    await fs.promises.writeFile(`${filePath}.tmp`, JSON.stringify(variables));
+    await fs.promises.rename(`${filePath}.tmp`, filePath);
+
+    await this.onPush(variables);
+  }
+
+  /**
+   * Deliver the variables pushed to this plugin, or to one of its `dependencies`, by calling their `push()`
+   * @param pluginName - Name of the plugin the variables were pushed to
+   * @param variables - Merge variables of the push request
+   */
+  async pushTo(
+    pluginName: string,
+    variables: Record<string, unknown>,
+  ): Promise<void> {
+    if (pluginName === this.pluginName) await this.push(variables);
+  }
+
   /**
    * Abstract method that plugins must implement to draw their content
    * Can be synchronous or asynchronous
@@ -76,6 +247,40 @@ export abstract class BasePlugin<TConfig = any> {
     // Default implementation does nothing
   }
 
+  /**
+   * Lifecycle hook called before each render, before the canvas is cleared
+   * Override this method to fetch the data to draw. Errors are drawn with `drawError()`
+   */
+  async onBeforeRender(): Promise<void> {
+    // Default implementation does nothing
+  }
+
+  /**
+   * Lifecycle hook called after each render, once the image is encoded
+   * Override this method to clean up after rendering. Errors are logged, the image is still used
+   * @param image - Base64 encoded PNG image that was rendered
+   */
+  async onAfterRender(image: string): Promise<void> {
+    // Default implementation does nothing
+  }
+
+  /**
+   * Lifecycle hook called when variables are pushed to the plugin, before the optional immediate render
+   * Override this method to react to the pushed data, which `pushedVariables` returns from now on
+   * @param variables - Variables that were pushed
+   */
+  async onPush(variables: Record<string, unknown>): Promise<void> {
+    // Default implementation does nothing
+  }
+
+  /**
+   * Lifecycle hook called when the plugin is stopped, when it is reloaded or when the provider shuts down
+   * Override this method to release resources (timers, connections...)
+   */
+  async onStop(): Promise<void> {
+    // Default implementation does nothing
+  }
+
   /**
    * Lifecycle hook called when the plugin encounters an error
    * Override this method to handle plugin-specific error logic
@@ -108,26 +313,98 @@ export abstract class BasePlugin<TConfig = any> {
   }
 
   /**
-   * Render the plugin content to a base64 encoded PNG image
-   * @returns Promise resolving to base64 encoded image data (without data URL prefix)
+   * Produce the bitmap in the physical orientation of the panel,
+   * with the model rotation, scale factor and offsets applied
+   * @returns The canvas to upload (the plugin canvas itself if no transformation is needed)
    */
-  async renderToBase64(): Promise<string> {
+  protected toPanelCanvas(): Canvas {
+    const panel = this.output.panel;
+    if (!panel) return this.canvas;
+
+    const rotation = ((panel.rotation % 360) + 360) % 360;
+    const isIdentity =
+      rotation === 0 &&
+      panel.scaleFactor === 1 &&
+      !panel.offsetX &&
+      !panel.offsetY &&
+      panel.width === this.screenWidth &&
+      panel.height === this.screenHeight;
+    if (isIdentity) return this.canvas;
+
+    const panelCanvas = createCanvas(panel.width, panel.height);
+    const ctx = panelCanvas.getContext("2d");
+
+    ctx.fillStyle = "#ffffff";
+    ctx.fillRect(0, 0, panel.width, panel.height);
+
+    // The logical canvas is centered on the panel, then shifted by the offsets
+    ctx.translate(
+      panel.width / 2 + (panel.offsetX || 0),
+      panel.height / 2 + (panel.offsetY || 0),
+    );
+    ctx.rotate((rotation * Math.PI) / 180);
+    ctx.scale(panel.scaleFactor, panel.scaleFactor);
+    ctx.drawImage(this.canvas, -this.screenWidth / 2, -this.screenHeight / 2);
+
+    return panelCanvas;
+  }
+
+  /**
+   * Reduce a canvas to the palette of the panel, using the configured dithering algorithm
+   */
+  protected applyPalette(canvas: Canvas): void {
+    const { levels, dither } = this.output;
+    if (!levels || !dither || dither === "none") return;
+
+    const ctx = canvas.getContext("2d");
+    const imageData = ctx.getImageData(0, 0, canvas.width, canvas.height);
+    quantize(imageData, levels, dither);
+    ctx.putImageData(imageData, 0, 0);
+  }
+
+  /**
+   * Draw the plugin content on its canvas, calling `onBeforeRender()` first and `drawError()` on errors.
+   * The canvas stays in the logical orientation, without the panel palette.
+   */
+  async render(): Promise<void> {
     try {
+      await this.onBeforeRender();
+
       // Fill with white background
       this.ctx.fillStyle = "#ffffff";
       this.ctx.fillRect(0, 0, this.screenWidth, this.screenHeight);
 
       // Call the plugin's draw method
       await this.draw();
-
-      // Convert to base64 without the data URL prefix
-      return this.canvas.toDataURL().replace(/^data:image\/png;base64,/, "");
     } catch (error) {
       // Call error lifecycle hook
       await this.drawError(error as Error);
+    }
+  }
+
+  /**
+   * Render the plugin content to a base64 encoded PNG image
+   * @returns Promise resolving to base64 encoded image data (without data URL prefix)
+   */
+  async renderToBase64(): Promise<string> {
+    await this.render();
+
+    // The palette is applied last, so the dithering matches the physical pixels
+    const panelCanvas = this.toPanelCanvas();
+    this.applyPalette(panelCanvas);
+
+    // Convert to base64 without the data URL prefix
+    const image = panelCanvas
+      .toDataURL()
+      .replace(/^data:image\/png;base64,/, "");
 
-      return this.canvas.toDataURL().replace(/^data:image\/png;base64,/, "");
+    try {
+      await this.onAfterRender(image);
+    } catch (error) {
+      this.log(`onAfterRender failed: ${error}`, "error");
     }
+
+    return image;
   }
 
   /**
@@ -0,0 +1,204 @@
+import axios, { AxiosInstance } from "axios";
+import { DateTime } from "luxon";
+import { CalendarEvent, CalendarProvider } from "./CalendarProvider";
+import { parseIcsEvents } from "./icsParser";
+
+export interface CalDavCalendarConfig {
+  /**
+   * URL of a calendar, or of the calendar home listing all the calendars of the account
+   * (e.g. `https://cloud.example.com/remote.php/dav/calendars/john/`)
+   */
+  url: string;
+  username?: string;
+  password?: string;
+  /**
+   * Display names or URLs of the calendars to show, when `url` is a calendar home.
+   * Defaults to all the calendars of the home
+   */
+  calendars?: string[];
+  /**
+   * ID of the calendar set on its events (defaults to the display name of each calendar)
+   */
+  id?: string;
+}
+
+interface CalDavCalendar {
+  url: string;
+  displayName: string;
+}
+
+const PROPFIND_BODY = `<?xml version="1.0" encoding="utf-8"?>
+<d:propfind xmlns:d="DAV:" xmlns:c="urn:ietf:params:xml:ns:caldav">
+  <d:prop>
+    <d:resourcetype/>
+    <d:displayname/>
+  </d:prop>
+</d:propfind>`;
+
+/**
+ * Get the inner content of all the XML elements with a given local name, whatever their namespace prefix
+ */
+function xmlElements(xml: string, localName: string): string[] {
+  const regex = new RegExp(
+    `<(?:[\\w-]+:)?${localName}(?:\\s[^>]*)?>([\\s\\S]*?)</(?:[\\w-]+:)?${localName}>`,
+    "g",
+  );
+  return [...xml.matchAll(regex)].map((match) => match[1]);
+}
+
+function hasXmlElement(xml: string, localName: string): boolean {
+  return new RegExp(`<(?:[\\w-]+:)?${localName}[\\s/>]`).test(xml);
+}
+
+function decodeXml(text: string): string {
+  const cdata = /^\s*<!\[CDATA\[([\s\S]*)\]\]>\s*$/.exec(text);
+  if (cdata) return cdata[1];
+
+  return text.replace(/&(#x[\da-f]+|#\d+|lt|gt|amp|quot|apos);/gi, (_, e) => {
+    const entity = e.toLowerCase();
+    if (entity.startsWith("#x")) {
+      return String.fromCodePoint(parseInt(entity.slice(2), 16));
+    }
+    if (entity.startsWith("#")) {
+      return String.fromCodePoint(parseInt(entity.slice(1), 10));
+    }
+    return { lt: "<", gt: ">", amp: "&", quot: '"', apos: "'" }[entity as "lt"];
+  });
+}
+
+function toCalDavTime(date: DateTime): string {
+  return date.toUTC().toFormat("yyyyMMdd'T'HHmmss'Z'");
+}
+
+/**
+ * Reads events from the calendars of a CalDAV server (Nextcloud, Fastmail, iCloud, Radicale...)
+ */
+export class CalDavCalendarService implements CalendarProvider {
+  readonly name: string;
+  private readonly client: AxiosInstance;
+  private calendars: CalDavCalendar[] = [];
+
+  constructor(private readonly config: CalDavCalendarConfig) {
+    this.name = `CalDAV ${new URL(config.url).host}`;
+    this.client = axios.create({
+      auth:
+        config.username !== undefined
+          ? { username: config.username, password: config.password ?? "" }
+          : undefined,
+      headers: { "Content-Type": "application/xml; charset=utf-8" },
+      responseType: "text",
+      timeout: 30_000,
+    });
+  }
+
+  /**
+   * Lists the calendars to show
+   */
+  async initialize(): Promise<void> {
+    const response = await this.client.request<string>({
+      method: "PROPFIND",
+      url: this.config.url,
+      headers: { Depth: "1" },
+      data: PROPFIND_BODY,
+    });
+
+    const resources = xmlElements(response.data, "response").map((xml) => ({
+      url: new URL(
+        decodeXml(xmlElements(xml, "href")[0] ?? "").trim(),
+        this.config.url,
+      ).href,
+      displayName: decodeXml(xmlElements(xml, "displayname")[0] ?? "").trim(),
+      isCalendar: xmlElements(xml, "resourcetype").some((type) =>
+        hasXmlElement(type, "calendar"),
+      ),
+    }));
+
+    const calendars = resources
+      .filter((resource) => resource.isCalendar)
+      .map(({ url, displayName }) => ({
+        url,
+        displayName: displayName || url,
+      }));
+
+    // The URL is a calendar itself
+    const self = calendars.find(
+      (calendar) =>
+        calendar.url.replace(/\/$/, "") ===
+        new URL(this.config.url).href.replace(/\/$/, ""),
+    );
+
+    this.calendars = self
+      ? [self]
+      : calendars.filter(
+          (calendar) =>
+            !this.config.calendars ||
+            this.config.calendars.includes(calendar.displayName) ||
+            this.config.calendars.includes(calendar.url),
+        );
+
+    if (!this.calendars.length) {
+      throw new Error(`No calendar found on ${this.name}`);
+    }
+  }
+
+  /**
+   * Get the events of all the calendars overlapping a time range, with the recurring events expanded
+   */
+  async getEvents(
+    startDate: DateTime,
+    endDate: DateTime,
+  ): Promise<CalendarEvent[]> {
+    const events = [] as CalendarEvent[];
+
+    for (const calendar of this.calendars) {
+      const calendarId = this.config.id ?? calendar.displayName;
+      const objects = await this.queryCalendar(calendar, startDate, endDate);
+
+      // Each object is a VCALENDAR holding one event, with its modified occurrences
+      for (const ics of objects) {
+        events.push(...parseIcsEvents(ics, startDate, endDate, calendarId));
+      }
+    }
+
+    return events.sort((a, b) => +a.start - +b.start);
+  }
+
+  /**
+   * Get the iCalendar objects of a calendar with events in a time range.
+   * The server returns the recurring events whose occurrences overlap the range, unexpanded.
+   */
+  private async queryCalendar(
+    calendar: CalDavCalendar,
+    startDate: DateTime,
+    endDate: DateTime,
+  ): Promise<string[]> {
+    const body = `<?xml version="1.0" encoding="utf-8"?>
+<c:calendar-query xmlns:d="DAV:" xmlns:c="urn:ietf:params:xml:ns:caldav">
+  <d:prop>
+    <c:calendar-data/>
+  </d:prop>
+  <c:filter>
+    <c:comp-filter name="VCALENDAR">
+      <c:comp-filter name="VEVENT">
+        <c:time-range start="${toCalDavTime(startDate)}" end="${toCalDavTime(endDate)}"/>
+      </c:comp-filter>
+    </c:comp-filter>
+  </c:filter>
+</c:calendar-query>`;
+
+    try {
+      const response = await this.client.request<string>({
+        method: "REPORT",
+        url: calendar.url,
+        headers: { Depth: "1" },
+        data: body,
+      });
+
+      return xmlElements(response.data, "calendar-data").map(decodeXml);
+    } catch (error) {
+      throw new Error(
+        `Failed to fetch calendar ${calendar.displayName} from ${this.name}: ${error}`,
+      );
+    }
+  }
+}
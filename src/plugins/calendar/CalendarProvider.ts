@@ -0,0 +1,36 @@
+import { DateTime } from "luxon";
+
+export interface CalendarEvent {
+  id: string;
+  summary?: string;
+  description?: string;
+  location?: string;
+  calendarId?: string; // Track which calendar this event comes from
+  start: DateTime;
+  end: DateTime;
+  allDay?: boolean;
+}
+
+/**
+ * Source of calendar events (Google Calendar, ICS file or URL, CalDAV server...)
+ */
+export interface CalendarProvider {
+  /**
+   * Name of the provider, used in the logs and in the marker of the calendars that failed
+   */
+  readonly name: string;
+
+  /**
+   * Prepares the provider (authentication, connection test...).
+   * Called before the first fetch, and again before the next fetch if it failed.
+   */
+  initialize(): Promise<void>;
+
+  /**
+   * Get the events overlapping a time range
+   * @param startDate - Start of the range (inclusive)
+   * @param endDate - End of the range (exclusive). Dates and floating times are interpreted in its timezone
+   * @returns Promise resolving to the events of all the calendars of the provider
+   */
+  getEvents(startDate: DateTime, endDate: DateTime): Promise<CalendarEvent[]>;
+}
@@ -2,17 +2,7 @@ import { google, calendar_v3 } from "googleapis";
 import fs from "fs";
 import path from "path";
 import { DateTime } from "luxon";
-
-export interface CalendarEvent {
-  id: string;
-  summary?: string;
-  description?: string;
-  location?: string;
-  calendarId?: string; // Track which calendar this event comes from
-  start: DateTime;
-  end: DateTime;
-  allDay?: boolean;
-}
+import { CalendarEvent, CalendarProvider } from "./CalendarProvider";
 
 export interface GoogleCalendarConfig {
   serviceAccountKeyPath: string;
@@ -22,7 +12,8 @@ export interface GoogleCalendarConfig {
 /**
  * Service for interacting with Google Calendar API using Service Account
  */
-export class GoogleCalendarService {
+export class GoogleCalendarService implements CalendarProvider {
+  readonly name = "Google Calendar";
   private auth: any;
   private calendar: calendar_v3.Calendar | null = null;
   public readonly calendarIds: string[];
@@ -39,7 +30,7 @@ export class GoogleCalendarService {
   }
 
   /**
-   * Initialize the service account authentication
+   * Initialize the service account authentication, and test the connection
    */
   async initialize(): Promise<void> {
     try {
@@ -66,16 +57,17 @@ export class GoogleCalendarService {
     } catch (error) {
       throw new Error(`Failed to initialize service account: ${error}`);
     }
+
+    const isConnected = await this.testConnection();
+    if (!isConnected) {
+      throw new Error("Failed to connect to Google Calendar API");
+    }
   }
 
   /**
    * Load service account configuration from file
    */
-  private async loadServiceAccountConfig(configKeyPath?: string): Promise<any> {
-    const keyPath =
-      configKeyPath ||
-      process.env.GOOGLE_SERVICE_ACCOUNT_KEY_PATH ||
-      "/path/to/service-account-key.json";
+  private async loadServiceAccountConfig(keyPath: string): Promise<any> {
     try {
       const keyFile = fs.readFileSync(keyPath, "utf8");
       return JSON.parse(keyFile);
@@ -102,13 +94,13 @@ export class GoogleCalendarService {
   }
 
   /**
-   * Get events for a specific week from all configured calendars
-   * @param startDate - Start date of the week
-   * @param endDate - End date of the week
+   * Get events for a time range from all configured calendars
+   * @param startDate - Start date of the range
+   * @param endDate - End date of the range
    * @param maxResults - Maximum number of events to retrieve per calendar
    * @returns Promise resolving to array of calendar events
    */
-  async getWeekEvents(
+  async getEvents(
     startDate: DateTime,
     endDate: DateTime,
     maxResults: number = 50,
@@ -154,7 +146,7 @@ export class GoogleCalendarService {
 
       // Sort all events by start time
       const sortedEvents = allEvents.sort((a, b) => {
-        return +a - +b;
+        return +a.start - +b.start;
       });
 
       return sortedEvents;
@@ -0,0 +1,84 @@
+import axios from "axios";
+import fs from "fs";
+import path from "path";
+import { DateTime } from "luxon";
+import { CalendarEvent, CalendarProvider } from "./CalendarProvider";
+import { parseIcsEvents } from "./icsParser";
+
+export interface IcsCalendarConfig {
+  /**
+   * Path of a local .ics file. Relative paths are resolved from the plugin directory
+   */
+  path?: string;
+  /**
+   * URL of an ICS subscription (`webcal://` URLs are fetched with HTTPS)
+   */
+  url?: string;
+  /**
+   * Headers sent with the request, e.g. an `Authorization` header
+   */
+  headers?: Record<string, string>;
+  /**
+   * ID of the calendar set on its events (defaults to the path, or to the host of the URL)
+   */
+  id?: string;
+}
+
+/**
+ * Reads events from an iCalendar (.ics) file, or from an ICS subscription URL
+ */
+export class IcsCalendarService implements CalendarProvider {
+  readonly name: string;
+  private readonly calendarId: string;
+
+  constructor(private readonly config: IcsCalendarConfig) {
+    if (!config.path === !config.url) {
+      throw new Error("An ICS calendar needs either a path or an url");
+    }
+
+    // Subscription URLs often contain a secret token, they are never logged
+    this.calendarId =
+      config.id ?? (config.url ? new URL(config.url).host : config.path!);
+    this.name = `ICS ${this.calendarId}`;
+  }
+
+  async initialize(): Promise<void> {
+    // Nothing to prepare, the calendar is read at each fetch
+  }
+
+  /**
+   * Get the events of the calendar overlapping a time range, with the recurring events expanded
+   */
+  async getEvents(
+    startDate: DateTime,
+    endDate: DateTime,
+  ): Promise<CalendarEvent[]> {
+    const ics = await this.readCalendar();
+    return parseIcsEvents(ics, startDate, endDate, this.calendarId);
+  }
+
+  private async readCalendar(): Promise<string> {
+    if (this.config.path) {
+      const filePath = path.resolve(__dirname, this.config.path);
+      try {
+        return await fs.promises.readFile(filePath, "utf8");
+      } catch (error) {
+        throw new Error(`Failed to read calendar file ${filePath}: ${error}`);
+      }
+    }
+
+    const url = this.config.url!.replace(/^webcal:\/\//i, "https://");
+    try {
+      const response = await axios.get<string>(url, {
+        headers: this.config.headers,
+        responseType: "text",
+        timeout: 30_000,
+      });
+      return response.data;
+    } catch (error) {
+      throw new Error(
+        `Failed to download calendar ${this.calendarId}: ${error}`,
+      );
+    }
+  }
+}
@@ -0,0 +1,115 @@
+import { Infer, ObjectSchema } from "../../configSchema";
+import { CalDavCalendarService } from "./CalDavCalendarService";
+import { CalendarProvider } from "./CalendarProvider";
+import { GoogleCalendarService } from "./GoogleCalendarService";
+import { IcsCalendarService } from "./IcsCalendarService";
+
+const SOURCE_TYPES = ["google", "ics", "caldav"] as const;
+type SourceType = (typeof SOURCE_TYPES)[number];
+
+/**
+ * Properties each type of calendar source accepts, besides `type` and `id`
+ */
+const SOURCE_PROPERTIES: Record<SourceType, readonly string[]> = {
+  google: ["serviceAccountKeyPath", "calendarIds"],
+  ics: ["path", "url", "headers"],
+  caldav: ["url", "username", "password", "calendars"],
+};
+
+const REQUIRED_SOURCE_PROPERTIES: Record<SourceType, readonly string[]> = {
+  google: ["serviceAccountKeyPath", "calendarIds"],
+  ics: [],
+  caldav: ["url"],
+};
+
+function validateUrl(url: string) {
+  try {
+    new URL(url.replace(/^webcal:\/\//i, "https://"));
+  } catch {
+    return "must be a valid URL";
+  }
+}
+
+/**
+ * Checks that a calendar source only has the properties of its type
+ */
+function validateCalendarSource(
+  source: Record<string, unknown>,
+): string | undefined {
+  const type = source.type as SourceType;
+  const allowed = ["type", "id", ...SOURCE_PROPERTIES[type]];
+
+  const unexpected = Object.keys(source).filter(
+    (key) => !allowed.includes(key),
+  );
+  if (unexpected.length) {
+    return `${unexpected.join(", ")} can't be used with a ${type} calendar`;
+  }
+
+  const missing = REQUIRED_SOURCE_PROPERTIES[type].filter(
+    (key) => source[key] === undefined,
+  );
+  if (missing.length) {
+    return `${missing.join(", ")} required for a ${type} calendar`;
+  }
+
+  if (type === "ics" && !source.path === !source.url) {
+    return "an ics calendar needs either a path or an url";
+  }
+}
+
+/**
+ * Schema of an entry of the `calendars` option of the calendar plugin
+ */
+export const CALENDAR_SOURCE_SCHEMA = {
+  type: "object",
+  properties: {
+    type: { type: "string", enum: SOURCE_TYPES, required: true },
+    id: { type: "string", minLength: 1 },
+    serviceAccountKeyPath: { type: "string", minLength: 1 },
+    calendarIds: {
+      type: "array",
+      items: { type: "string", minLength: 1 },
+      minItems: 1,
+    },
+    path: { type: "string", minLength: 1 },
+    url: { type: "string", validate: validateUrl },
+    headers: { type: "object", properties: {}, additionalProperties: true },
+    username: { type: "string" },
+    password: { type: "string" },
+    calendars: { type: "array", items: { type: "string" }, minItems: 1 },
+  },
+  validate: validateCalendarSource,
+} as const satisfies ObjectSchema;
+
+export type CalendarSourceConfig = Infer<typeof CALENDAR_SOURCE_SCHEMA>;
+
+/**
+ * Creates the provider reading the events of a calendar source
+ */
+export function createCalendarProvider(
+  source: CalendarSourceConfig,
+): CalendarProvider {
+  switch (source.type) {
+    case "google":
+      return new GoogleCalendarService({
+        serviceAccountKeyPath: source.serviceAccountKeyPath!,
+        calendarIds: source.calendarIds!,
+      });
+    case "ics":
+      return new IcsCalendarService({
+        path: source.path,
+        url: source.url,
+        headers: source.headers as Record<string, string> | undefined,
+        id: source.id,
+      });
+    case "caldav":
+      return new CalDavCalendarService({
+        url: source.url!,
+        username: source.username,
+        password: source.password,
+        calendars: source.calendars,
+        id: source.id,
+      });
+  }
+}
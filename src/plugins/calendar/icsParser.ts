@@ -0,0 +1,216 @@
+import ICAL from "ical.js";
+import { DateTime, IANAZone, Zone } from "luxon";
+import { CalendarEvent } from "./CalendarProvider";
+
+/**
+ * Maximum number of occurrences looked at for a single recurring event,
+ * so a malformed rule can't block the rendering
+ */
+const MAX_OCCURRENCES = 50_000;
+
+/**
+ * Converts an iCalendar time into a luxon DateTime.
+ * Times are interpreted in their TZID when it is a known IANA timezone, or with the
+ * VTIMEZONE definitions of the file otherwise. Floating times and dates are in `floatingZone`.
+ * @param time - Time to convert
+ * @param tzid - TZID parameter of the property the time comes from
+ * @param floatingZone - Timezone of the dates and of the times without timezone
+ */
+function toDateTime(
+  time: ICAL.Time,
+  tzid: string | undefined,
+  floatingZone: Zone,
+): DateTime {
+  const { year, month, day } = time;
+
+  if (time.isDate) {
+    return DateTime.fromObject({ year, month, day }, { zone: floatingZone });
+  }
+
+  const { hour, minute, second } = time;
+  const wallTime = { year, month, day, hour, minute, second };
+
+  if (time.zone?.tzid === "UTC") {
+    return DateTime.fromObject(wallTime, { zone: "utc" });
+  }
+
+  if (tzid && IANAZone.isValidZone(tzid)) {
+    return DateTime.fromObject(wallTime, { zone: tzid });
+  }
+
+  if (time.zone && time.zone.tzid !== "floating") {
+    // Custom timezone, defined by a VTIMEZONE of the file
+    return DateTime.fromJSDate(time.toJSDate(), { zone: floatingZone });
+  }
+
+  return DateTime.fromObject(wallTime, { zone: floatingZone });
+}
+
+function getTzid(event: ICAL.Event, property: "dtstart" | "dtend") {
+  const tzid = event.component.getFirstProperty(property)?.getParameter("tzid");
+  return typeof tzid === "string" ? tzid : undefined;
+}
+
+function isCancelled(event: ICAL.Event) {
+  const status = event.component.getFirstPropertyValue("status");
+  return typeof status === "string" && status.toUpperCase() === "CANCELLED";
+}
+
+function toCalendarEvent(
+  event: ICAL.Event,
+  id: string,
+  startDate: ICAL.Time,
+  endDate: ICAL.Time,
+  calendarId: string,
+  floatingZone: Zone,
+): CalendarEvent {
+  const startTzid = getTzid(event, "dtstart");
+  const start = toDateTime(startDate, startTzid, floatingZone);
+  let end = toDateTime(
+    endDate,
+    getTzid(event, "dtend") ?? startTzid,
+    floatingZone,
+  );
+
+  // Events without end last one day (dates) or are instantaneous (times)
+  if (end < start) end = start;
+  if (startDate.isDate && +end === +start) end = start.plus({ days: 1 });
+
+  return {
+    id,
+    summary: event.summary || "Untitled Event",
+    description: event.description || undefined,
+    location: event.location || undefined,
+    calendarId,
+    start,
+    end,
+    allDay: startDate.isDate,
+  };
+}
+
+/**
+ * Parses an iCalendar document, and returns the events overlapping a time range.
+ * Recurring events are expanded (RRULE, RDATE, EXDATE and modified occurrences),
+ * and cancelled events are ignored.
+ * @param ics - Content of the .ics file
+ * @param rangeStart - Start of the time range (inclusive)
+ * @param rangeEnd - End of the time range (exclusive). Its timezone is used for the floating times
+ * @param calendarId - ID of the calendar, set on the events
+ * @returns The events, sorted by start time
+ */
+export function parseIcsEvents(
+  ics: string,
+  rangeStart: DateTime,
+  rangeEnd: DateTime,
+  calendarId: string,
+): CalendarEvent[] {
+  const root = new ICAL.Component(ICAL.parse(ics));
+  const floatingZone = rangeStart.zone;
+
+  // Timezones that are not IANA timezones can only be resolved with their definition
+  for (const vtimezone of root.getAllSubcomponents("vtimezone")) {
+    const tzid = vtimezone.getFirstPropertyValue("tzid");
+    if (typeof tzid === "string" && !ICAL.TimezoneService.has(tzid)) {
+      ICAL.TimezoneService.register(vtimezone);
+    }
+  }
+
+  const vevents = root.getAllSubcomponents("vevent");
+  const masters = new Map<string, ICAL.Event>();
+  const exceptions = new Map<string, ICAL.Event[]>();
+
+  for (const vevent of vevents) {
+    const event = new ICAL.Event(vevent);
+    if (event.isRecurrenceException()) {
+      exceptions.set(event.uid, [...(exceptions.get(event.uid) ?? []), event]);
+    } else {
+      masters.set(event.uid, event);
+    }
+  }
+
+  const events = [] as CalendarEvent[];
+  const overlapsRange = (evt: CalendarEvent) =>
+    evt.start < rangeEnd && evt.end > rangeStart;
+
+  for (const exception of [...exceptions.values()].flat()) {
+    const master = masters.get(exception.uid);
+    if (master?.isRecurring()) {
+      master.relateException(exception);
+    } else if (!isCancelled(exception)) {
+      // Modified occurrence of an event that is not in the document
+      const evt = toCalendarEvent(
+        exception,
+        `${exception.uid}_${exception.recurrenceId}`,
+        exception.startDate,
+        exception.endDate,
+        calendarId,
+        floatingZone,
+      );
+      if (overlapsRange(evt)) events.push(evt);
+    }
+  }
+
+  for (const event of masters.values()) {
+    if (!event.isRecurring()) {
+      if (isCancelled(event)) continue;
+
+      const evt = toCalendarEvent(
+        event,
+        event.uid,
+        event.startDate,
+        event.endDate,
+        calendarId,
+        floatingZone,
+      );
+      if (overlapsRange(evt)) events.push(evt);
+      continue;
+    }
+
+    const iterator = event.iterator();
+    const startTzid = getTzid(event, "dtstart");
+    let occurrence: ICAL.Time | null;
+
+    for (
+      let i = 0;
+      i < MAX_OCCURRENCES && (occurrence = iterator.next());
+      i++
+    ) {
+      if (toDateTime(occurrence, startTzid, floatingZone) >= rangeEnd) break;
+
+      const details = event.getOccurrenceDetails(occurrence);
+      if (isCancelled(details.item)) continue;
+
+      const evt = toCalendarEvent(
+        details.item,
+        `${event.uid}_${details.recurrenceId}`,
+        details.startDate,
+        details.endDate,
+        calendarId,
+        floatingZone,
+      );
+      if (overlapsRange(evt)) events.push(evt);
+    }
+
+    // Occurrences moved into the range from a recurrence after it
+    for (const exception of exceptions.get(event.uid) ?? []) {
+      const recurrenceStart = toDateTime(
+        exception.recurrenceId,
+        startTzid,
+        floatingZone,
+      );
+      if (recurrenceStart < rangeEnd || isCancelled(exception)) continue;
+
+      const evt = toCalendarEvent(
+        exception,
+        `${event.uid}_${exception.recurrenceId}`,
+        exception.startDate,
+        exception.endDate,
+        calendarId,
+        floatingZone,
+      );
+      if (overlapsRange(evt)) events.push(evt);
+    }
+  }
+
+  return events.sort((a, b) => +a.start - +b.start);
+}
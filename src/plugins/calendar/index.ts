@@ -1,31 +1,179 @@
+import { GlobalFonts } from "@napi-rs/canvas";
 import { BasePlugin } from "../basePlugin";
-import { CalendarEvent, GoogleCalendarService } from "./GoogleCalendarService";
-import { DateTime } from "luxon";
+import { FontOptions, fontString, rem } from "../layout";
+import { CalendarEvent, CalendarProvider } from "./CalendarProvider";
+import {
+  CALENDAR_SOURCE_SCHEMA,
+  createCalendarProvider,
+} from "./calendarSources";
+import { DateTime, IANAZone } from "luxon";
+import { Infer, ObjectSchema } from "../../configSchema";
+import fs from "fs";
+import path from "path";
+
+function checkOverlap<T extends number | DateTime>(a: [T, T], b: [T, T]) {
+  return !(a[0] >= b[1] || a[1] <= b[0]);
+}
 
 /**
- * Utility function to convert rem units to pixels
+ * Last events fetched from a provider, persisted to be displayed when the provider fails
  */
-function rem(value: number) {
-  return Math.round(value * 20);
+interface CachedEvents {
+  /** Name of the provider, so the cache is ignored when the calendars change */
+  provider: string;
+  fetchedAt: string;
+  start: string;
+  end: string;
+  events: (Omit<CalendarEvent, "start" | "end"> & {
+    start: string;
+    end: string;
+  })[];
 }
 
-function checkOverlap<T extends number | DateTime>(a: [T, T], b: [T, T]) {
-  return !(a[0] >= b[1] || a[1] <= b[0]);
+/**
+ * Part of an event displayed in a day column, or in a week row
+ */
+interface EventSegment {
+  event: CalendarEvent;
+  start: DateTime;
+  end: DateTime;
+  /** The event starts before the segment, in a previous day or hour that is not visible */
+  continuesBefore: boolean;
+  /** The event ends after the segment */
+  continuesAfter: boolean;
 }
 
-interface CalendarConfig {
-  googleCalendar: {
-    serviceAccountKeyPath: string;
-    calendarId?: string;
-    calendarIds?: string[]; // Support for multiple calendars
-  };
-  timezone?: string;
-  startDay?: "monday" | "sunday";
-  startHour: string;
-  endHour: string;
+/**
+ * Languages written from right to left, whose layout is mirrored
+ */
+const RTL_LANGUAGES = [
+  "ar",
+  "ckb",
+  "dv",
+  "fa",
+  "he",
+  "ps",
+  "sd",
+  "ug",
+  "ur",
+  "yi",
+];
+
+interface Labels {
+  allDay: string;
+  more: (count: number) => string;
+  until: (time: string) => string;
+  noEvents: string;
+  lastUpdated: (time: string) => string;
+  unavailable: (names: string) => string;
 }
 
-function parseHumanHour(hour: string): number {
+/**
+ * Texts of the calendar, by language. Other languages use the English texts
+ */
+const LABELS: Record<string, Labels> = {
+  en: {
+    allDay: "All day",
+    more: (count) => `+${count} more`,
+    until: (time) => `until ${time}`,
+    noEvents: "No upcoming events",
+    lastUpdated: (time) => `last updated ${time}`,
+    unavailable: (names) => `${names} unavailable`,
+  },
+  fr: {
+    allDay: "Journée",
+    more: (count) => `+${count} autres`,
+    until: (time) => `jusqu'à ${time}`,
+    noEvents: "Aucun événement à venir",
+    lastUpdated: (time) => `mis à jour ${time}`,
+    unavailable: (names) => `${names} indisponible`,
+  },
+  de: {
+    allDay: "Ganztägig",
+    more: (count) => `+${count} weitere`,
+    until: (time) => `bis ${time}`,
+    noEvents: "Keine anstehenden Termine",
+    lastUpdated: (time) => `aktualisiert ${time}`,
+    unavailable: (names) => `${names} nicht verfügbar`,
+  },
+  ja: {
+    allDay: "終日",
+    more: (count) => `他${count}件`,
+    until: (time) => `${time}まで`,
+    noEvents: "予定はありません",
+    lastUpdated: (time) => `${time} 更新`,
+    unavailable: (names) => `${names} 取得失敗`,
+  },
+};
+
+/**
+ * Validates a BCP 47 locale, e.g. `fr`, `de-CH` or `ja-JP`
+ */
+function validateLocale(locale: string) {
+  try {
+    if (Intl.DateTimeFormat.supportedLocalesOf(locale).length) return;
+  } catch {
+    // Invalid language tag
+  }
+  return `unsupported locale "${locale}"`;
+}
+
+/**
+ * Days covered by an event, from the start of its first day to the end of its last day
+ */
+function daySpan(event: CalendarEvent): [DateTime, DateTime] {
+  const firstDay = event.start.startOf("day");
+  const lastDay =
+    event.end > event.start
+      ? event.end.minus({ milliseconds: 1 }).startOf("day")
+      : firstDay;
+  return [firstDay, lastDay.plus({ days: 1 })];
+}
+
+/**
+ * Distributes events into lines, so that the events of a line don't overlap.
+ * Each line takes as many of the remaining events as possible, in order.
+ * @param events - Events to distribute, sorted by start time
+ * @param getSpan - Time range an event occupies on its line
+ */
+function packLines(
+  events: CalendarEvent[],
+  getSpan: (event: CalendarEvent) => [DateTime, DateTime],
+): CalendarEvent[][] {
+  const lines = [] as CalendarEvent[][];
+  const remainingEvents = events.slice();
+
+  while (remainingEvents.length) {
+    let line = [...remainingEvents];
+    for (let i = 0; i < line.length; i++) {
+      const evt = line[i];
+
+      // Checking for overlap
+      for (let j = i + 1; j < line.length; j++) {
+        const other = line[j];
+
+        if (checkOverlap(getSpan(evt), getSpan(other))) {
+          // Removing this event from the line
+          line.splice(j, 1);
+          j--;
+        }
+      }
+    }
+
+    for (const evt of line) {
+      const idx = remainingEvents.indexOf(evt);
+      if (idx !== -1) {
+        remainingEvents.splice(idx, 1);
+      }
+    }
+
+    lines.push(line);
+  }
+
+  return lines;
+}
+
+function parseHumanHour(hour: string | number): number {
   if (typeof hour === "number") {
     return hour;
   }
@@ -40,10 +188,138 @@ function parseHumanHour(hour: string): number {
 }
 
 /**
- * Calendar plugin that displays a week view with Google Calendar events
+ * Validates an hour of the day, e.g. `"9:00"`, `"9am"` or `9`
+ */
+function validateHour(hour: string | number | boolean) {
+  try {
+    const value = parseHumanHour(hour as string | number);
+    if (!Number.isInteger(value) || value < 0 || value > 24) {
+      return `must be an hour between 0 and 24, got ${JSON.stringify(hour)}`;
+    }
+  } catch (error) {
+    return `must be an hour like "9:00", "9am" or 9, got ${JSON.stringify(hour)}`;
+  }
+}
+
+/**
+ * Schema of an entry of the `calendarStyles` option, styling the events of a calendar
+ */
+const CALENDAR_STYLE_SCHEMA = {
+  type: "object",
+  properties: {
+    /** ID of the calendar, as set on its events */
+    calendar: { type: "string", required: true, minLength: 1 },
+    /** Name of the calendar in the legend, defaults to its ID */
+    label: { type: "string" },
+    fill: {
+      type: "string",
+      enum: ["solid", "hatched", "dotted", "outlined"],
+      default: "solid",
+    },
+    /** Swaps black and white in the event boxes */
+    inverted: { type: "boolean", default: false },
+    /** Outline of the boxes. Defaults to `none` for black boxes, and `solid` for the others */
+    border: { type: "string", enum: ["none", "solid", "dashed", "thick"] },
+    /** Text added before the titles of the events, e.g. `*` or `[W]` */
+    glyph: { type: "string", minLength: 1 },
+  },
+} as const satisfies ObjectSchema;
+
+type CalendarStyle = Infer<typeof CALENDAR_STYLE_SCHEMA>;
+
+const DEFAULT_CALENDAR_STYLE: CalendarStyle = {
+  calendar: "",
+  fill: "solid",
+  inverted: false,
+};
+
+const CALENDAR_CONFIG_SCHEMA = {
+  type: "object",
+  properties: {
+    googleCalendar: {
+      type: "object",
+      properties: {
+        serviceAccountKeyPath: { type: "string", required: true, minLength: 1 },
+        calendarIds: {
+          type: "array",
+          items: { type: "string", minLength: 1 },
+          minItems: 1,
+          required: true,
+        },
+      },
+    },
+    calendars: { type: "array", items: CALENDAR_SOURCE_SCHEMA, minItems: 1 },
+    timezone: {
+      type: "string",
+      validate: (zone) =>
+        IANAZone.isValidZone(zone) ? undefined : `unknown timezone "${zone}"`,
+    },
+    startDay: { type: "string", enum: ["monday", "sunday"], default: "monday" },
+    startHour: {
+      type: ["string", "number"],
+      default: "8:00",
+      validate: validateHour,
+    },
+    endHour: {
+      type: ["string", "number"],
+      default: "22:00",
+      validate: validateHour,
+    },
+    view: {
+      type: "string",
+      enum: ["week", "day", "days", "agenda", "month"],
+      default: "week",
+    },
+    days: { type: "number", integer: true, min: 1, max: 14, default: 3 },
+    agendaDays: { type: "number", integer: true, min: 1, default: 30 },
+    agendaMaxEvents: { type: "number", integer: true, min: 1, default: 20 },
+    staleThresholdHours: { type: "number", min: 0, default: 24 },
+    locale: { type: "string", default: "en-US", validate: validateLocale },
+    timeFormat: { type: "string", enum: ["12h", "24h"] },
+    fontFamily: { type: "string", minLength: 1, default: "Courier" },
+    fontPath: { type: "string", minLength: 1 },
+    calendarStyles: {
+      type: "array",
+      items: CALENDAR_STYLE_SCHEMA,
+      default: [],
+    },
+    legend: { type: "boolean", default: false },
+  },
+  validate: (config) => {
+    if (!config.googleCalendar && !config.calendars) {
+      return "googleCalendar or calendars is required";
+    }
+    if (
+      parseHumanHour(config.startHour as string | number) >=
+      parseHumanHour(config.endHour as string | number)
+    ) {
+      return "startHour must be before endHour";
+    }
+  },
+} as const satisfies ObjectSchema;
+
+type CalendarConfig = Infer<typeof CALENDAR_CONFIG_SCHEMA>;
+
+/**
+ * Calendar plugin that displays the events of Google, ICS and CalDAV calendars,
+ * in a week, day, N-day, agenda or month view
  */
 export class CalendarPlugin extends BasePlugin<CalendarConfig> {
-  private calendarService: GoogleCalendarService | null = null;
+  static configSchema = CALENDAR_CONFIG_SCHEMA;
+
+  /**
+   * Providers of the events, with their initialization.
+   * A failed initialization is retried at the next render.
+   */
+  private providers = [] as {
+    provider: CalendarProvider;
+    ready: Promise<void> | null;
+  }[];
+
+  /**
+   * Last events fetched from each provider, by provider index. Loaded from disk at the first fetch
+   */
+  private cache: (CachedEvents | null)[] | null = null;
 
   readonly styles = {
     textColor: "#000000",
@@ -55,8 +331,6 @@ export class CalendarPlugin extends BasePlugin<CalendarConfig> {
     timeColumnWidth: 80,
     headerHeight: 60,
 
-    fontFamily: "Courier",
-
     headerFontSize: rem(1.4),
     eventFontSize: rem(1.4),
     hoursFontSize: rem(0.8),
@@ -64,16 +338,51 @@ export class CalendarPlugin extends BasePlugin<CalendarConfig> {
 
   startHour = 8;
   endHour = 22;
+
+  /**
+   * Number of day columns of the time grid being drawn
+   */
+  private dayCount = 7;
+
+  /**
+   * Whether times use the 12-hour clock, from `timeFormat` or from the locale
+   */
+  private hour12 = true;
+
+  /**
+   * Whether the layout is mirrored, for right-to-left locales
+   */
+  private rtl = false;
+
+  private labels = LABELS.en;
+
   get totalHours() {
     return this.endHour - this.startHour;
   }
 
+  font(fontSize: number): FontOptions {
+    return { size: fontSize, family: this.config.fontFamily, weight: "bold" };
+  }
+
   fontStr(fontSize: number) {
-    return `bold ${fontSize}px ${this.styles.fontFamily}`;
+    return fontString(this.font(fontSize));
+  }
+
+  /**
+   * Height available to the views, above the legend
+   */
+  get viewHeight() {
+    return this.config.legend && this.config.calendarStyles.length
+      ? this.height - this.legendHeight
+      : this.height;
+  }
+
+  get legendHeight() {
+    return this.styles.hoursFontSize + 20;
   }
 
   get dayWidth() {
-    return (this.width - this.styles.timeColumnWidth) / 7;
+    return (this.width - this.styles.timeColumnWidth) / this.dayCount;
   }
 
   /**
@@ -87,8 +396,31 @@ export class CalendarPlugin extends BasePlugin<CalendarConfig> {
     this.startHour = parseHumanHour(this.config.startHour);
     this.endHour = parseHumanHour(this.config.endHour);
 
+    const { locale, timeFormat } = this.config;
+    const { language } = new Intl.Locale(locale);
+    this.hour12 = timeFormat
+      ? timeFormat === "12h"
+      : !!new Intl.DateTimeFormat(locale, { hour: "numeric" }).resolvedOptions()
+          .hour12;
+    this.rtl = RTL_LANGUAGES.includes(language);
+    this.labels = LABELS[language] ?? LABELS.en;
+
+    // Scripts missing from the default font, like Japanese or Arabic, need another font
+    if (this.config.fontPath) {
+      const fontPath = path.resolve(__dirname, this.config.fontPath);
+      if (!GlobalFonts.registerFromPath(fontPath, this.config.fontFamily)) {
+        this.log(`Failed to load the font ${fontPath}`, "error");
+      }
+    }
+
     try {
-      await this.initializeService();
+      this.providers = this.createProviders().map((provider) => ({
+        provider,
+        ready: null,
+      }));
+
+      // Initializing the providers early reports configuration errors at startup
+      await Promise.all(this.providers.map((entry) => this.initialize(entry)));
       this.log("Calendar plugin initialized successfully", "info");
     } catch (error) {
       this.log(`Failed to initialize calendar plugin: ${error}`, "error");
@@ -96,49 +428,234 @@ export class CalendarPlugin extends BasePlugin<CalendarConfig> {
   }
 
   async onStop(): Promise<void> {
-    this.calendarService = null;
+    this.providers = [];
     this.log("Calendar plugin stopped", "info");
   }
 
   protected async draw(): Promise<void> {
-    if (!this.calendarService) {
+    if (!this.providers.length) {
       return this.drawErrorMessage("Calendar service not initialized");
     }
 
-    try {
-      const { startOfWeek, endOfWeek } = this.getWeekBounds(this.now());
-      const events = await this.calendarService.getWeekEvents(
-        startOfWeek,
-        endOfWeek,
-      );
+    const now = this.now();
+    const { start, end } = this.getViewBounds(now);
 
-      await this.drawWeekView(startOfWeek, events);
+    let fetched: Awaited<ReturnType<typeof this.getEvents>>;
+    try {
+      fetched = await this.getEvents(start, end);
     } catch (error) {
       this.log(`Failed to fetch events: ${error}`, "error");
       return this.drawErrorMessage(`Failed to load calendar: ${error}`);
     }
+    const { events, lastUpdate, failed } = fetched;
+
+    // Right-to-left locales mirror the layout, and `fillText()` mirrors the texts back
+    this.ctx.save();
+    try {
+      if (this.rtl) {
+        this.ctx.setTransform(-1, 0, 0, 1, this.width, 0);
+      }
+
+      switch (this.config.view) {
+        case "agenda":
+          this.drawAgendaView(now, events);
+          break;
+        case "month":
+          this.drawMonthView(now, start, end, events);
+          break;
+        default: {
+          const dayCount = Math.round(end.diff(start, "days").days);
+          await this.drawTimeGridView(start, dayCount, events);
+        }
+      }
+
+      if (this.config.legend) {
+        this.drawLegend();
+      }
+
+      if (lastUpdate || failed.length) {
+        this.drawStatusMarker(lastUpdate, failed);
+      }
+    } finally {
+      this.ctx.restore();
+    }
   }
 
   /**
-   * Initialize the Google Calendar service
+   * Creates the providers of the `googleCalendar` and `calendars` options
    */
-  private async initializeService(): Promise<void> {
-    if (!GoogleCalendarService.isValidConfig(this.config.googleCalendar)) {
-      throw new Error("Invalid Google Calendar configuration");
+  private createProviders(): CalendarProvider[] {
+    const sources = [...(this.config.calendars ?? [])];
+    if (this.config.googleCalendar) {
+      sources.unshift({ type: "google", ...this.config.googleCalendar });
+    }
+
+    return sources.map((source) => createCalendarProvider(source));
+  }
+
+  private initialize(entry: (typeof this.providers)[number]) {
+    if (!entry.ready) {
+      entry.ready = entry.provider.initialize().catch((error) => {
+        entry.ready = null;
+        throw new Error(`${entry.provider.name}: ${error}`);
+      });
     }
+    return entry.ready;
+  }
 
-    this.calendarService = new GoogleCalendarService(
-      this.config.googleCalendar,
+  /**
+   * Get the events of all the calendars overlapping a time range, in the configured timezone.
+   * A calendar failing doesn't prevent the others from being displayed: its last fetched
+   * events are used if they are more recent than `staleThresholdHours`.
+   * @returns The events, the time of the oldest cached events used (null if all the calendars are up to date),
+   * and the names of the calendars that failed without usable cache
+   * @throws if all the calendars failed without usable cache
+   */
+  private async getEvents(
+    startDate: DateTime,
+    endDate: DateTime,
+  ): Promise<{
+    events: CalendarEvent[];
+    lastUpdate: DateTime | null;
+    failed: string[];
+  }> {
+    const results = await Promise.allSettled(
+      this.providers.map(async (entry) => {
+        await this.initialize(entry);
+        return entry.provider.getEvents(startDate, endDate);
+      }),
     );
 
-    // Initialize the service account authentication
-    await this.calendarService.initialize();
+    const cache = await this.loadCache();
+    const events = [] as CalendarEvent[];
+    const errors = [] as string[];
+    const failed = [] as string[];
+    let lastUpdate: DateTime | null = null;
+
+    for (const [i, result] of results.entries()) {
+      const { name } = this.providers[i].provider;
+
+      if (result.status === "fulfilled") {
+        events.push(...result.value);
+        cache[i] = {
+          provider: name,
+          fetchedAt: DateTime.now().toISO()!,
+          start: startDate.toISO()!,
+          end: endDate.toISO()!,
+          events: result.value.map((event) => ({
+            ...event,
+            start: event.start.toISO()!,
+            end: event.end.toISO()!,
+          })),
+        };
+        continue;
+      }
+
+      this.log(`Failed to fetch events from ${name}: ${result.reason}`, "warn");
 
-    // Test the connection
-    const isConnected = await this.calendarService.testConnection();
-    if (!isConnected) {
-      throw new Error("Failed to connect to Google Calendar API");
+      const cached = this.getCachedEvents(cache[i], name, startDate, endDate);
+      if (cached) {
+        events.push(...cached.events);
+        if (!lastUpdate || cached.fetchedAt < lastUpdate) {
+          lastUpdate = cached.fetchedAt;
+        }
+      } else {
+        failed.push(name);
+        errors.push(
+          result.reason instanceof Error
+            ? result.reason.message
+            : String(result.reason),
+        );
+      }
+    }
+
+    if (errors.length === results.length) {
+      throw new Error(errors.join("\n"));
+    }
+
+    if (results.some((result) => result.status === "fulfilled")) {
+      await this.saveCache(cache);
+    }
+
+    // Times are displayed in the configured timezone, and dates stay the same day
+    const zone = startDate.zone;
+    return {
+      events: events
+        .map((event) => ({
+          ...event,
+          start: event.start.setZone(zone, { keepLocalTime: event.allDay }),
+          end: event.end.setZone(zone, { keepLocalTime: event.allDay }),
+        }))
+        .sort((a, b) => +a.start - +b.start),
+      lastUpdate,
+      failed,
+    };
+  }
+
+  private get cachePath() {
+    return path.join(this.dataDir, "events.json");
+  }
+
+  private async loadCache(): Promise<(CachedEvents | null)[]> {
+    if (!this.cache) {
+      try {
+        const json = await fs.promises.readFile(this.cachePath, "utf8");
+        this.cache = JSON.parse(json);
+      } catch (error) {
+        if ((error as NodeJS.ErrnoException).code !== "ENOENT") {
+          this.log(`Ignoring unreadable events cache: ${error}`, "warn");
+        }
+      }
+      if (!Array.isArray(this.cache)) this.cache = [];
     }
+    return this.cache;
+  }
+
+  private async saveCache(cache: (CachedEvents | null)[]): Promise<void> {
+    const cachePath = this.cachePath;
+    try {
+      // Writing to a temporary file first, so a crash can't leave a truncated cache
+      await fs.promises.writeFile(`${cachePath}.tmp`, JSON.stringify(cache));
+      await fs.promises.rename(`${cachePath}.tmp`, cachePath);
+    } catch (error) {
+      this.log(`Failed to save the events cache: ${error}`, "warn");
+    }
+  }
+
+  /**
+   * Get the cached events of a provider overlapping a time range
+   * @returns null if there is no cache for this provider, if it is older than `staleThresholdHours`,
+   *   or if it doesn't cover the start of the range
+   */
+  private getCachedEvents(
+    cached: CachedEvents | null | undefined,
+    name: string,
+    startDate: DateTime,
+    endDate: DateTime,
+  ): { events: CalendarEvent[]; fetchedAt: DateTime } | null {
+    if (!cached || cached.provider !== name) return null;
+
+    const fetchedAt = DateTime.fromISO(cached.fetchedAt);
+    const age = DateTime.now().diff(fetchedAt, "hours").hours;
+    if (!fetchedAt.isValid || age > this.config.staleThresholdHours) {
+      return null;
+    }
+
+    const cacheStart = DateTime.fromISO(cached.start);
+    const cacheEnd = DateTime.fromISO(cached.end);
+    if (cacheStart > startDate || cacheEnd <= startDate) return null;
+
+    const events = cached.events
+      .map((event) => ({
+        ...event,
+        start: DateTime.fromISO(event.start, { setZone: true }),
+        end: DateTime.fromISO(event.end, { setZone: true }),
+      }))
+      .filter((event) =>
+        checkOverlap([event.start, event.end], [startDate, endDate]),
+      );
+
+    return { events, fetchedAt };
   }
 
   /**
@@ -168,12 +685,44 @@ export class CalendarPlugin extends BasePlugin<CalendarConfig> {
   }
 
   /**
-   * Draw the week view calendar
+   * Calculate the time range displayed by the configured view
+   */
+  private getViewBounds(now: DateTime): { start: DateTime; end: DateTime } {
+    const today = now.startOf("day");
+
+    switch (this.config.view) {
+      case "day":
+        return { start: today, end: today.plus({ days: 1 }) };
+      case "days":
+        return { start: today, end: today.plus({ days: this.config.days }) };
+      case "agenda":
+        return {
+          start: now,
+          end: today.plus({ days: this.config.agendaDays }),
+        };
+      case "month":
+        // Whole weeks, from the week of the first day of the month to the week of its last day
+        return {
+          start: this.getWeekBounds(now.startOf("month")).startOfWeek,
+          end: this.getWeekBounds(now.endOf("month")).endOfWeek,
+        };
+      default: {
+        const { startOfWeek, endOfWeek } = this.getWeekBounds(now);
+        return { start: startOfWeek, end: endOfWeek };
+      }
+    }
+  }
+
+  /**
+   * Draw the time grid of the week, day and N-day views, with a column per day
    */
-  private async drawWeekView(
-    startOfWeek: DateTime,
+  private async drawTimeGridView(
+    start: DateTime,
+    dayCount: number,
     events: CalendarEvent[],
   ): Promise<void> {
+    this.dayCount = dayCount;
+
     const ctx = this.ctx;
     const width = this.screenWidth;
     const height = this.screenHeight;
@@ -182,35 +731,41 @@ export class CalendarPlugin extends BasePlugin<CalendarConfig> {
     ctx.fillStyle = "#ffffff";
     ctx.fillRect(0, 0, width, height);
 
-    this.drawHeader(startOfWeek);
+    this.drawHeader(start);
     this.drawVerticalGrid();
 
     const allDayEvents = events.filter((event) => event.allDay);
-    const allDayEventsHeight = this.drawAllDayEvents(allDayEvents);
+    const allDayEventsHeight = this.drawAllDayEvents(start, allDayEvents);
 
     this.drawTimeGrid(allDayEventsHeight);
 
     // Group events by day and type
     const eventsByDay = this.groupEventsByDay(
-      startOfWeek,
+      start,
       events.filter((e) => !e.allDay),
     );
 
     const timeGridStart = this.styles.headerHeight + allDayEventsHeight;
 
     // Draw events for each day
-    for (let dayIndex = 0; dayIndex < 7; dayIndex++) {
+    for (let dayIndex = 0; dayIndex < dayCount; dayIndex++) {
       const dayX = this.styles.timeColumnWidth + dayIndex * this.dayWidth;
-      const day = startOfWeek.plus({ days: dayIndex }).startOf("day");
+      const day = start.plus({ days: dayIndex }).startOf("day");
       const isToday = day.hasSame(this.now(), "day");
-      this.drawTimedEvents(eventsByDay[dayIndex], dayX, timeGridStart, isToday);
+      this.drawTimedEvents(
+        eventsByDay[dayIndex],
+        day,
+        dayX,
+        timeGridStart,
+        isToday,
+      );
     }
   }
 
   /**
-   * Draws the the name and dates of each day of the week at the top of the screen
+   * Draws the the name and dates of each day column at the top of the screen
    */
-  private drawHeader(startOfWeek: DateTime) {
+  private drawHeader(start: DateTime) {
     const ctx = this.ctx;
     const timeColumnWidth = this.styles.timeColumnWidth;
     const dayWidth = this.dayWidth;
@@ -224,11 +779,10 @@ export class CalendarPlugin extends BasePlugin<CalendarConfig> {
     ctx.textAlign = "center";
     ctx.textBaseline = "middle";
 
-    const dayNames = this.getDayNames();
     const today = this.now().startOf("day");
 
-    for (let i = 0; i < 7; i++) {
-      const date = startOfWeek.plus({ days: i }).startOf("day");
+    for (let i = 0; i < this.dayCount; i++) {
+      const date = start.plus({ days: i }).startOf("day");
 
       const x = timeColumnWidth + i * dayWidth + dayWidth / 2;
       const y = headerHeight / 2;
@@ -237,8 +791,13 @@ export class CalendarPlugin extends BasePlugin<CalendarConfig> {
       const isToday = date.hasSame(today, "day");
 
       // Day name and date
-      const dayText = `${dayNames[i]} ${date.month}/${date.day}`;
-      ctx.fillText(dayText, x, y);
+      const dayText = this.formatDay(date, "short");
+      this.fitFont(
+        dayText,
+        dayWidth - 10,
+        this.font(this.styles.headerFontSize),
+      );
+      this.fillText(dayText, x, y);
 
       // Draw day header border
       ctx.strokeStyle = gridColor;
@@ -264,17 +823,20 @@ export class CalendarPlugin extends BasePlugin<CalendarConfig> {
 
     // Draw vertical grid lines between days
     ctx.strokeStyle = this.styles.gridColor;
-    for (let i = 1; i < 7; i++) {
+    for (let i = 1; i < this.dayCount; i++) {
       ctx.beginPath();
       ctx.moveTo(this.styles.timeColumnWidth + i * this.dayWidth, 0);
-      ctx.lineTo(this.styles.timeColumnWidth + i * this.dayWidth, this.height);
+      ctx.lineTo(
+        this.styles.timeColumnWidth + i * this.dayWidth,
+        this.viewHeight,
+      );
       ctx.stroke();
     }
 
     // Draw time column border
     ctx.beginPath();
     ctx.moveTo(this.styles.timeColumnWidth, 0);
-    ctx.lineTo(this.styles.timeColumnWidth, this.height);
+    ctx.lineTo(this.styles.timeColumnWidth, this.viewHeight);
     ctx.stroke();
   }
 
@@ -284,27 +846,27 @@ export class CalendarPlugin extends BasePlugin<CalendarConfig> {
     const ctx = this.ctx;
 
     // Draw time labels and horizontal grid lines
-    ctx.font = this.fontStr(this.styles.hoursFontSize);
     ctx.textAlign = "right";
 
     const hourHeight =
-      (this.height - headerHeight - allDayHeight) / this.totalHours;
+      (this.viewHeight - headerHeight - allDayHeight) / this.totalHours;
 
     for (let hour = this.startHour; hour <= this.endHour; hour++) {
       const y = timeGridStart + (hour - this.startHour) * hourHeight;
 
       // Time label
-      const timeText =
-        hour === 12
-          ? "12:00pm"
-          : hour > 12
-            ? `${hour - 12}:00pm`
-            : hour === 0
-              ? "12:00am"
-              : `${hour}:00am`;
+      const timeText = this.formatTime(
+        DateTime.fromObject({ hour: hour % 24 }),
+        true,
+      );
 
       ctx.fillStyle = this.styles.textColor;
-      ctx.fillText(timeText, this.styles.timeColumnWidth - 5, y + 4);
+      this.fitFont(
+        timeText,
+        this.styles.timeColumnWidth - 10,
+        this.font(this.styles.hoursFontSize),
+      );
+      this.fillText(timeText, this.styles.timeColumnWidth - 5, y + 4);
 
       // Horizontal grid line (dotted)
       ctx.strokeStyle = this.styles.gridColor;
@@ -318,46 +880,17 @@ export class CalendarPlugin extends BasePlugin<CalendarConfig> {
     }
   }
 
-  private drawAllDayEvents(events: CalendarEvent[]): number {
+  private drawAllDayEvents(start: DateTime, events: CalendarEvent[]): number {
     if (!events.length) return 0;
 
-    const lines = [] as CalendarEvent[][];
-    const remainingEvents = events.slice();
-    remainingEvents.sort((a, b) => {
-      return +a.start - +b.start;
-    });
-
-    while (remainingEvents.length) {
-      let line = [...remainingEvents];
-      for (let i = 0; i < line.length; i++) {
-        const evt = line[i];
-
-        // Checking for overlap
-        for (let j = i + 1; j < line.length; j++) {
-          const other = line[j];
-
-          if (checkOverlap([evt.start, evt.end], [other.start, other.end])) {
-            // Removing this event from the line
-            line.splice(j, 1);
-            j--;
-          }
-        }
-      }
-
-      for (const evt of line) {
-        const idx = remainingEvents.indexOf(evt);
-        if (idx !== -1) {
-          remainingEvents.splice(idx, 1);
-        }
-      }
-
-      lines.push(line);
-    }
+    const lines = packLines(
+      events.slice().sort((a, b) => +a.start - +b.start),
+      (evt) => [evt.start, evt.end],
+    );
 
     const ctx = this.ctx;
     const eventHeight = this.styles.eventFontSize + 10;
-
-    const weekBounds = this.getWeekBounds(this.now());
+    const end = start.plus({ days: this.dayCount });
 
     // Now, we have the events organized in lines, and we know that
     // within each line, there are no overlapping events.
@@ -367,34 +900,39 @@ export class CalendarPlugin extends BasePlugin<CalendarConfig> {
       const top = this.styles.headerHeight + i * eventHeight;
 
       for (const evt of line) {
-        const dow = evt.start.diff(weekBounds.startOfWeek, "days").days;
-        const duration = evt.end.diff(evt.start, "day").days;
-
-        const x = this.styles.timeColumnWidth + dow * this.dayWidth;
-        const width = duration * this.dayWidth - 10;
+        // Events starting before or ending after the columns are cut to them
+        const startIndex = Math.max(0, evt.start.diff(start, "days").days);
+        const endIndex = Math.min(
+          this.dayCount,
+          evt.end.diff(start, "days").days,
+        );
 
-        // Drawing the box
-        ctx.fillStyle = "#000000";
-        ctx.beginPath();
-        ctx.roundRect(x, top, width, eventHeight, 7);
-        ctx.fill();
+        const x = this.styles.timeColumnWidth + startIndex * this.dayWidth;
+        const width = (endIndex - startIndex) * this.dayWidth - 10;
 
-        // Drawing the border
-        ctx.strokeStyle = "#ffffff";
-        ctx.lineWidth = 2;
-        ctx.beginPath();
-        ctx.roundRect(x, top, width, eventHeight, 7);
-        ctx.stroke();
+        const textX = this.drawEventBox(
+          x,
+          top,
+          width,
+          eventHeight,
+          7,
+          { continuesBefore: evt.start < start, continuesAfter: evt.end > end },
+          "horizontal",
+          this.getCalendarStyle(evt),
+        );
 
         // Drawing the text
-        ctx.fillStyle = "#ffffff";
         const lineHeight = rem(1.3);
         ctx.font = this.fontStr(this.styles.eventFontSize);
         ctx.textAlign = "left";
         ctx.textBaseline = "middle";
 
-        const title = evt.summary || "Untitled";
-        ctx.fillText(title, x + 4, top + lineHeight / 2 + 10);
+        this.drawEventText(
+          this.getEventTitle(evt),
+          textX,
+          top + lineHeight / 2 + 10,
+          this.getCalendarStyle(evt),
+        );
       }
     }
 
@@ -402,114 +940,81 @@ export class CalendarPlugin extends BasePlugin<CalendarConfig> {
   }
 
   /**
-   * Get day names based on start day configuration
-   */
-  private getDayNames(): string[] {
-    const mondayFirst = ["Mon", "Tue", "Wed", "Thu", "Fri", "Sat", "Sun"];
-    const sundayFirst = ["Sun", "Mon", "Tue", "Wed", "Thu", "Fri", "Sat"];
-
-    return this.config.startDay === "sunday" ? sundayFirst : mondayFirst;
-  }
-
-  /**
-   * Group events by day of the week
+   * Split events into segments, one for each day column they cover.
+   * The segments are clipped to the hours displayed by the time grid.
    */
   private groupEventsByDay(
-    startOfWeek: DateTime,
+    start: DateTime,
     events: CalendarEvent[],
-  ): CalendarEvent[][] {
-    const eventsByDay: CalendarEvent[][] = Array(7)
+  ): EventSegment[][] {
+    const eventsByDay: EventSegment[][] = Array(this.dayCount)
       .fill(null)
       .map(() => []);
 
-    events.forEach((event) => {
-      const eventDate = event.start;
-      if (eventDate) {
-        const dayIndex = this.getDayIndex(startOfWeek, eventDate);
-        if (dayIndex >= 0 && dayIndex < 7) {
-          eventsByDay[dayIndex].push(event);
-        }
+    for (let dayIndex = 0; dayIndex < this.dayCount; dayIndex++) {
+      const day = start.plus({ days: dayIndex }).startOf("day");
+      const visibleStart = day.plus({ hours: this.startHour });
+      const visibleEnd = day.plus({ hours: this.endHour });
+
+      for (const event of events) {
+        // Instantaneous events are kept when they are in the visible hours
+        const isVisible =
+          event.start < visibleEnd &&
+          (event.end > visibleStart || event.start >= visibleStart);
+        if (!isVisible) continue;
+
+        eventsByDay[dayIndex].push({
+          event,
+          start: event.start < visibleStart ? visibleStart : event.start,
+          end: event.end > visibleEnd ? visibleEnd : event.end,
+          continuesBefore: event.start < visibleStart,
+          continuesAfter: event.end > visibleEnd,
+        });
       }
-    });
+    }
 
     return eventsByDay;
   }
 
   /**
-   * Get the day index (0-6) for a given date within the week
+   * Wrap the title of an event on the lines fitting in its box.
+   * The last line can overflow the box, it is clipped when drawn.
    */
-  private getDayIndex(startOfWeek: DateTime, date: DateTime): number {
-    const daysDiff = Math.floor(
-      date.startOf("day").diff(startOfWeek.startOf("day"), "days").days,
-    );
-    return daysDiff;
-  }
-
   private processEventMultilineTitle(
-    ctx: typeof this.ctx,
     maxWidth: number,
     maxHeight: number,
     title: string,
   ): string[] {
-    const words = title.split(" ");
     const lineHeight = rem(1.3);
-    ctx.font = this.fontStr(lineHeight);
-    let currentY = 0;
-
-    let line = "";
-    let lines = [] as string[];
-    for (let i = 0; i < words.length; i++) {
-      const word = words[i];
-      const testLine = line + (line ? " " : "") + word;
-      const metrics = ctx.measureText(testLine);
-
-      if (metrics.width > maxWidth && line) {
-        // Draw the current line
-        if (currentY + lineHeight <= maxHeight) {
-          lines.push(line);
-          line = word;
-          currentY += lineHeight;
-        } else {
-          // No more space, truncate current line
-          const truncated = this.truncateText(line, maxWidth, ctx);
-          lines.push(truncated);
-          break;
-        }
-      } else {
-        line = testLine;
-      }
-    }
-    if (line.length > 0) {
-      lines.push(line);
-    }
-
-    return lines;
+    this.ctx.font = this.fontStr(lineHeight);
+    return this.wrapText(
+      title,
+      maxWidth,
+      Math.floor(maxHeight / lineHeight) + 1,
+    );
   }
 
   /**
    * Draw timed events positioned according to their time
    */
   private drawTimedEvents(
-    events: CalendarEvent[],
+    segments: EventSegment[],
+    day: DateTime,
     dayX: number,
     timeGridStart: number,
     drawCurrentTime = false,
   ): void {
     const ctx = this.ctx;
-    const sectionHeight = this.height - timeGridStart;
+    const sectionHeight = this.viewHeight - timeGridStart;
     const hourHeight = sectionHeight / this.totalHours;
     const dayWidth = this.dayWidth;
+    const visibleStart = day.plus({ hours: this.startHour });
 
     // Sort events by start time to handle overlaps better
-    events.sort((a, b) => {
+    segments.sort((a, b) => {
       return +a.start - +b.start;
     });
 
-    // Filtering out events outside of the time range
-    events = events.filter((evt) => {
-      return evt.end.hour > this.startHour && evt.start.hour < this.endHour;
-    });
-
     ctx.font = this.fontStr(this.styles.eventFontSize);
     ctx.textAlign = "left";
 
@@ -519,25 +1024,16 @@ export class CalendarPlugin extends BasePlugin<CalendarConfig> {
      */
     const titleHeight = 40;
 
-    const evts = events.map((evt) => {
-      let start = evt.start;
-      let end = evt.end;
-      if (start.hour < this.startHour) {
-        start = start.set({ hour: this.startHour - 1, minute: 55 });
-      }
-      if (end.hour > this.endHour) {
-        end = end.set({ hour: this.endHour, minute: 5 });
-      }
-
-      const durationMs = +end - +start;
+    const evts = segments.map((segment) => {
+      const durationMs = +segment.end - +segment.start;
       const durationHours = durationMs / 1000 / 60 / 60;
 
       const top =
         timeGridStart +
-        (start.hour + start.minute / 60 - this.startHour) * hourHeight;
+        segment.start.diff(visibleStart, "hours").hours * hourHeight;
 
       return {
-        evt,
+        segment,
         top,
         height: hourHeight * durationHours,
         bottom: top + hourHeight * durationHours,
@@ -600,6 +1096,7 @@ export class CalendarPlugin extends BasePlugin<CalendarConfig> {
       width: number;
       height: number;
       title: string[];
+      segment: EventSegment;
     }[];
     // Sorting the events by x position
     placedEvents.sort((a, b) => a[0] - b[0]);
@@ -643,11 +1140,11 @@ export class CalendarPlugin extends BasePlugin<CalendarConfig> {
           bottom: evt.bottom,
           width: dayWidth - xOffset - 4,
           height: evt.height,
+          segment: evt.segment,
           title: this.processEventMultilineTitle(
-            ctx,
             dayWidth,
             evt.height,
-            evt.evt.summary || "Untitled",
+            this.getEventTitle(evt.segment.event),
           ),
         });
         continue;
@@ -670,11 +1167,11 @@ export class CalendarPlugin extends BasePlugin<CalendarConfig> {
           height: evt.height,
           left,
           width,
+          segment: evt.segment,
           title: this.processEventMultilineTitle(
-            ctx,
             dayWidth,
             evt.height,
-            evt.evt.summary || "Untitled",
+            this.getEventTitle(evt.segment.event),
           ),
         });
       }
@@ -684,22 +1181,21 @@ export class CalendarPlugin extends BasePlugin<CalendarConfig> {
 
     // Drawing the events
     for (const bbox of bboxes) {
-      // Event background (black for grayscale)
-      ctx.fillStyle = "#000000";
-      ctx.beginPath();
-      ctx.roundRect(bbox.left, bbox.top, bbox.width, bbox.height, radius);
-      ctx.fill();
-      // ctx.fillRect(bbox.left, bbox.top, bbox.width, bbox.height);
-
-      // Event border
-      ctx.strokeStyle = "#ffffff";
-      ctx.lineWidth = 2;
-      ctx.beginPath();
-      ctx.roundRect(bbox.left, bbox.top, bbox.width, bbox.height, radius);
-      ctx.stroke();
+      const style = this.getCalendarStyle(bbox.segment.event);
+
+      // Event background (black for grayscale) and border
+      this.drawEventBox(
+        bbox.left,
+        bbox.top,
+        bbox.width,
+        bbox.height,
+        radius,
+        bbox.segment,
+        "vertical",
+        style,
+      );
 
-      // Event text (white on black)
-      ctx.fillStyle = "#ffffff";
+      // Event text (white on black, unless the calendar is styled)
       const lineHeight = rem(1.3);
       ctx.font = this.fontStr(this.styles.eventFontSize);
       ctx.textAlign = "left";
@@ -709,7 +1205,12 @@ export class CalendarPlugin extends BasePlugin<CalendarConfig> {
       for (let i = 0; i < titleLines.length; i++) {
         const titleLine = titleLines[i];
         const y = bbox.top + i * lineHeight;
-        ctx.fillText(titleLine, bbox.left + 4, y + lineHeight / 2 + 10);
+        this.drawEventText(
+          titleLine,
+          bbox.left + 4,
+          y + lineHeight / 2 + 10,
+          style,
+        );
       }
     }
 
@@ -753,23 +1254,664 @@ export class CalendarPlugin extends BasePlugin<CalendarConfig> {
   }
 
   /**
-   * Truncate text to fit within specified width
+   * Draw the agenda view: a list of the next events grouped by day, with their times and locations
+   */
+  private drawAgendaView(now: DateTime, events: CalendarEvent[]): void {
+    const ctx = this.ctx;
+    const { textColor, gridColor, timeColumnWidth } = this.styles;
+    const padding = 10;
+    const dayHeaderHeight = this.styles.headerFontSize + 2 * padding;
+    const titleHeight = this.styles.eventFontSize + padding;
+    const detailsHeight = this.styles.hoursFontSize + padding;
+
+    ctx.fillStyle = "#ffffff";
+    ctx.fillRect(0, 0, this.width, this.height);
+
+    // The ongoing events are listed with the events of today
+    const today = now.startOf("day");
+    const upcomingEvents = events
+      .filter((evt) => evt.end > now)
+      .slice(0, this.config.agendaMaxEvents);
+
+    if (!upcomingEvents.length) {
+      ctx.fillStyle = textColor;
+      ctx.font = this.fontStr(this.styles.headerFontSize);
+      ctx.textAlign = "center";
+      ctx.textBaseline = "middle";
+      this.fillText(this.labels.noEvents, this.width / 2, this.viewHeight / 2);
+      return;
+    }
+
+    const days = [] as { day: DateTime; events: CalendarEvent[] }[];
+    for (const evt of upcomingEvents) {
+      const day = evt.start < today ? today : evt.start.startOf("day");
+      const lastDay = days[days.length - 1];
+      if (lastDay?.day.hasSame(day, "day")) {
+        lastDay.events.push(evt);
+      } else {
+        days.push({ day, events: [evt] });
+      }
+    }
+
+    ctx.textAlign = "left";
+    ctx.textBaseline = "middle";
+
+    let y = 0;
+    for (const { day, events } of days) {
+      // Stop when the day header and its first event don't fit anymore
+      if (y + dayHeaderHeight + titleHeight > this.viewHeight) break;
+
+      // Day header, inverted for today
+      const isToday = day.hasSame(today, "day");
+      ctx.fillStyle = isToday ? textColor : "#ffffff";
+      ctx.fillRect(0, y, this.width, dayHeaderHeight);
+      ctx.fillStyle = isToday ? "#ffffff" : textColor;
+      ctx.font = this.fontStr(this.styles.headerFontSize);
+      this.fillText(
+        this.formatDay(day, "long"),
+        padding,
+        y + dayHeaderHeight / 2,
+      );
+      y += dayHeaderHeight;
+
+      for (const evt of events) {
+        const details = [
+          this.formatAgendaEnd(evt, day),
+          evt.location ?? "",
+        ].filter(Boolean);
+        const rowHeight = titleHeight + (details.length ? detailsHeight : 0);
+        if (y + rowHeight > this.viewHeight) break;
+
+        const titleY = y + titleHeight / 2 + padding / 2;
+        const time = evt.allDay
+          ? this.labels.allDay
+          : evt.start < today
+            ? "..."
+            : this.formatTime(evt.start);
+
+        ctx.fillStyle = textColor;
+        this.fitFont(
+          time,
+          timeColumnWidth - padding,
+          this.font(this.styles.hoursFontSize),
+        );
+        this.fillText(time, padding, titleY);
+
+        const textX = timeColumnWidth + padding;
+        const textWidth = this.width - textX - padding;
+        ctx.font = this.fontStr(this.styles.eventFontSize);
+        this.fillText(
+          this.truncateText(this.getEventTitle(evt), textWidth),
+          textX,
+          titleY,
+        );
+
+        if (details.length) {
+          ctx.font = this.fontStr(this.styles.hoursFontSize);
+          this.fillText(
+            this.truncateText(details.join(" - "), textWidth),
+            textX,
+            y + titleHeight + detailsHeight / 2,
+          );
+        }
+
+        y += rowHeight;
+
+        // Separator between events
+        ctx.strokeStyle = gridColor;
+        ctx.lineWidth = 1;
+        ctx.beginPath();
+        ctx.moveTo(textX, y);
+        ctx.lineTo(this.width - padding, y);
+        ctx.stroke();
+      }
+    }
+  }
+
+  /**
+   * Describes the end of an event listed by the agenda, with its date when it ends on another day
+   * @param day - Day the event is listed under
+   */
+  private formatAgendaEnd(evt: CalendarEvent, day: DateTime): string {
+    if (evt.allDay) {
+      // The end of all-day events is the start of the day after their last day
+      const lastDay = evt.end.minus({ days: 1 });
+      return lastDay > day
+        ? this.labels.until(this.formatDay(lastDay, "short"))
+        : "";
+    }
+
+    return evt.end.hasSame(day, "day") || +evt.end === +day.plus({ days: 1 })
+      ? this.labels.until(this.formatTime(evt.end))
+      : this.labels.until(
+          `${this.formatDay(evt.end, "numeric")} ${this.formatTime(evt.end)}`,
+        );
+  }
+
+  /**
+   * Draw the month view: a grid of the weeks of the month, with a line per event in each day.
+   * Events that don't fit in a day are counted in a "+N more" line.
+   */
+  private drawMonthView(
+    now: DateTime,
+    start: DateTime,
+    end: DateTime,
+    events: CalendarEvent[],
+  ): void {
+    const ctx = this.ctx;
+    const { textColor, gridColor } = this.styles;
+    const fontSize = this.styles.hoursFontSize;
+    const headerHeight = fontSize + 20;
+    const dayNumberHeight = fontSize + 10;
+    const eventHeight = fontSize + 8;
+
+    const weekCount = Math.round(end.diff(start, "weeks").weeks);
+    const dayWidth = this.width / 7;
+    const weekHeight = (this.viewHeight - headerHeight) / weekCount;
+    const maxLines = Math.floor((weekHeight - dayNumberHeight) / eventHeight);
+
+    ctx.fillStyle = "#ffffff";
+    ctx.fillRect(0, 0, this.width, this.height);
+
+    ctx.font = this.fontStr(fontSize);
+    ctx.textBaseline = "middle";
+
+    // Names of the days
+    ctx.fillStyle = textColor;
+    ctx.textAlign = "center";
+    for (let i = 0; i < 7; i++) {
+      this.fillText(
+        this.formatDay(start.plus({ days: i }), "weekday"),
+        i * dayWidth + dayWidth / 2,
+        headerHeight / 2,
+      );
+    }
+
+    const today = now.startOf("day");
+
+    for (let week = 0; week < weekCount; week++) {
+      const weekStart = start.plus({ weeks: week });
+      const weekEnd = weekStart.plus({ weeks: 1 });
+      const top = headerHeight + week * weekHeight;
+
+      // Days of the week, with their number
+      ctx.textAlign = "left";
+      for (let i = 0; i < 7; i++) {
+        const day = weekStart.plus({ days: i });
+        const x = i * dayWidth;
+
+        ctx.strokeStyle = gridColor;
+        ctx.lineWidth = 1;
+        ctx.strokeRect(x, top, dayWidth, weekHeight);
+
+        if (day.hasSame(today, "day")) {
+          ctx.fillStyle = textColor;
+          ctx.beginPath();
+          ctx.roundRect(
+            x + 2,
+            top + 2,
+            dayNumberHeight * 1.5,
+            dayNumberHeight - 4,
+            5,
+          );
+          ctx.fill();
+          ctx.fillStyle = "#ffffff";
+        } else {
+          // Days of the previous and next months are dimmed
+          ctx.fillStyle = day.hasSame(now, "month") ? textColor : gridColor;
+        }
+        this.fillText(String(day.day), x + 6, top + dayNumberHeight / 2);
+      }
+
+      const weekEvents = events.filter((evt) =>
+        checkOverlap(daySpan(evt), [weekStart, weekEnd]),
+      );
+      const lines = packLines(weekEvents, daySpan);
+
+      // The last line shows the number of hidden events when they don't all fit
+      const visibleLines =
+        lines.length > maxLines ? Math.max(0, maxLines - 1) : lines.length;
+      const hiddenByDay = Array(7).fill(0) as number[];
+
+      for (const [lineIndex, line] of lines.entries()) {
+        const y = top + dayNumberHeight + lineIndex * eventHeight;
+
+        for (const evt of line) {
+          const [first, last] = daySpan(evt);
+          const startIndex = Math.max(
+            0,
+            Math.round(first.diff(weekStart, "days").days),
+          );
+          const endIndex = Math.min(
+            7,
+            Math.round(last.diff(weekStart, "days").days),
+          );
+
+          if (lineIndex >= visibleLines) {
+            for (let i = startIndex; i < endIndex; i++) hiddenByDay[i]++;
+            continue;
+          }
+
+          const x = startIndex * dayWidth + 2;
+          const width = (endIndex - startIndex) * dayWidth - 4;
+          const title = this.getEventTitle(evt);
+
+          if (evt.allDay || last.diff(first, "days").days > 1) {
+            // All-day and multi-day events are boxes, open on the weeks they continue to
+            const textX = this.drawEventBox(
+              x,
+              y + 1,
+              width,
+              eventHeight - 2,
+              5,
+              {
+                continuesBefore: first < weekStart,
+                continuesAfter: last > weekEnd,
+              },
+              "horizontal",
+              this.getCalendarStyle(evt),
+              false,
+            );
+            this.drawEventText(
+              this.truncateText(title, x + width - textX - 4),
+              textX,
+              y + eventHeight / 2,
+              this.getCalendarStyle(evt),
+            );
+          } else {
+            ctx.fillStyle = textColor;
+            this.fillText(
+              this.truncateText(
+                `${this.formatTime(evt.start)} ${title}`,
+                width - 4,
+              ),
+              x + 2,
+              y + eventHeight / 2,
+            );
+          }
+        }
+      }
+
+      ctx.fillStyle = textColor;
+      for (let i = 0; i < 7; i++) {
+        if (!hiddenByDay[i]) continue;
+        this.fillText(
+          this.labels.more(hiddenByDay[i]),
+          i * dayWidth + 4,
+          top + dayNumberHeight + visibleLines * eventHeight + eventHeight / 2,
+        );
+      }
+    }
+  }
+
+  /**
+   * Draw the box of an event. The sides where the event continues beyond the view
+   * are square, with an arrow pointing to the continuation.
+   * @param continuation - Whether the event continues before and after the box
+   * @param direction - `horizontal` when the event continues on other days, `vertical` on other hours
+   * @param style - Style of the calendar of the event
+   * @param separator - Whether to draw the line separating the box from its neighbours
+   * @returns The left position of the text in the box, after the arrow
+   */
+  private drawEventBox(
+    x: number,
+    y: number,
+    width: number,
+    height: number,
+    radius: number,
+    continuation: Pick<EventSegment, "continuesBefore" | "continuesAfter">,
+    direction: "horizontal" | "vertical",
+    style: CalendarStyle,
+    separator = true,
+  ): number {
+    const ctx = this.ctx;
+    const { continuesBefore: before, continuesAfter: after } = continuation;
+    const colors = this.getStyleColors(style);
+
+    // Radii of the top-left, top-right, bottom-right and bottom-left corners
+    const radii =
+      direction === "horizontal"
+        ? [
+            before ? 0 : radius,
+            after ? 0 : radius,
+            after ? 0 : radius,
+            before ? 0 : radius,
+          ]
+        : [
+            before ? 0 : radius,
+            before ? 0 : radius,
+            after ? 0 : radius,
+            after ? 0 : radius,
+          ];
+
+    ctx.fillStyle = colors.background;
+    ctx.beginPath();
+    ctx.roundRect(x, y, width, height, radii);
+    ctx.fill();
+
+    if (style.fill === "hatched" || style.fill === "dotted") {
+      ctx.save();
+      ctx.clip();
+      ctx.fillStyle = colors.text;
+      ctx.strokeStyle = colors.text;
+      ctx.lineWidth = 2;
+
+      if (style.fill === "hatched") {
+        // Diagonal lines
+        for (let offset = -height; offset < width; offset += 10) {
+          ctx.beginPath();
+          ctx.moveTo(x + offset, y + height);
+          ctx.lineTo(x + offset + height, y);
+          ctx.stroke();
+        }
+      } else {
+        // Staggered dots
+        for (let row = 0; row * 6 < height; row++) {
+          for (let col = (row % 2) * 3; col < width; col += 6) {
+            ctx.fillRect(x + col, y + row * 6, 2, 2);
+          }
+        }
+      }
+      ctx.restore();
+    }
+
+    if (separator) {
+      ctx.strokeStyle = this.styles.eventBorderColor;
+      ctx.lineWidth = 2;
+      ctx.beginPath();
+      ctx.roundRect(x, y, width, height, radii);
+      ctx.stroke();
+    }
+
+    if (colors.border !== "none") {
+      // Outline drawn inside the box, so it doesn't overlap the separator
+      const lineWidth = colors.border === "thick" ? 4 : 2;
+      const inset = lineWidth / 2 + (separator ? 1 : 0);
+      ctx.strokeStyle = colors.text;
+      ctx.lineWidth = lineWidth;
+      ctx.setLineDash(colors.border === "dashed" ? [6, 4] : []);
+      ctx.beginPath();
+      ctx.roundRect(
+        x + inset,
+        y + inset,
+        Math.max(0, width - 2 * inset),
+        Math.max(0, height - 2 * inset),
+        radii,
+      );
+      ctx.stroke();
+      ctx.setLineDash([]);
+    }
+
+    const size = Math.max(0, Math.min(8, height / 3, width / 4));
+    const triangle = (points: [number, number][]) => {
+      ctx.beginPath();
+      ctx.moveTo(...points[0]);
+      for (const point of points.slice(1)) ctx.lineTo(...point);
+      ctx.closePath();
+      ctx.fill();
+    };
+
+    ctx.fillStyle = colors.text;
+    if (direction === "horizontal") {
+      const middle = y + height / 2;
+      if (before) {
+        triangle([
+          [x + 3, middle],
+          [x + 3 + size, middle - size],
+          [x + 3 + size, middle + size],
+        ]);
+      }
+      if (after) {
+        const right = x + width - 3;
+        triangle([
+          [right, middle],
+          [right - size, middle - size],
+          [right - size, middle + size],
+        ]);
+      }
+      return before ? x + size + 8 : x + 4;
+    }
+
+    // Arrows on the right, the title being on the left
+    const center = x + width - size - 4;
+    if (before) {
+      triangle([
+        [center, y + 3],
+        [center - size, y + 3 + size],
+        [center + size, y + 3 + size],
+      ]);
+    }
+    if (after) {
+      const bottom = y + height - 3;
+      triangle([
+        [center, bottom],
+        [center - size, bottom - size],
+        [center + size, bottom - size],
+      ]);
+    }
+    return x + 4;
+  }
+
+  /**
+   * Get the style of the calendar of an event
+   */
+  private getCalendarStyle(event: CalendarEvent): CalendarStyle {
+    return (
+      this.config.calendarStyles.find(
+        (style) => style.calendar === event.calendarId,
+      ) ?? DEFAULT_CALENDAR_STYLE
+    );
+  }
+
+  /**
+   * Get the title of an event, with the glyph of its calendar
+   */
+  private getEventTitle(event: CalendarEvent): string {
+    const { glyph } = this.getCalendarStyle(event);
+    const title = event.summary || "Untitled";
+    return glyph ? `${glyph} ${title}` : title;
+  }
+
+  /**
+   * Get the colors of the event boxes of a calendar.
+   * Boxes are black with white text by default, the other fills are white with black text.
+   */
+  private getStyleColors(style: CalendarStyle) {
+    const { eventBackgroundColor, eventTextColor } = this.styles;
+    const ink = style.inverted ? eventTextColor : eventBackgroundColor;
+    const paper = style.inverted ? eventBackgroundColor : eventTextColor;
+    const background = style.fill === "solid" ? ink : paper;
+
+    return {
+      background,
+      text: style.fill === "solid" ? paper : ink,
+      // Boxes of the color of the screen need an outline to be visible
+      border:
+        style.border ??
+        (background === eventBackgroundColor ? "none" : "solid"),
+    };
+  }
+
+  /**
+   * Draw a line of text in an event box, in the text color of its calendar.
+   * Patterns are hidden behind the text, so it stays readable.
+   */
+  private drawEventText(
+    text: string,
+    x: number,
+    y: number,
+    style: CalendarStyle,
+  ): void {
+    const ctx = this.ctx;
+    const colors = this.getStyleColors(style);
+
+    if (style.fill === "hatched" || style.fill === "dotted") {
+      const metrics = ctx.measureText(text);
+      ctx.fillStyle = colors.background;
+      ctx.fillRect(
+        x - 2,
+        y - metrics.actualBoundingBoxAscent - 2,
+        metrics.width + 4,
+        metrics.actualBoundingBoxAscent + metrics.actualBoundingBoxDescent + 4,
+      );
+    }
+
+    ctx.fillStyle = colors.text;
+    this.fillText(text, x, y);
+  }
+
+  /**
+   * Draw the legend strip at the bottom of the screen, with a sample box and the label of each styled calendar
    */
-  private truncateText(text: string, maxWidth: number, ctx: any): string {
-    const metrics = ctx.measureText(text);
-    if (metrics.width <= maxWidth) {
-      return text;
-    }
-
-    let truncated = text;
-    while (truncated.length > 0) {
-      truncated = truncated.slice(0, -1);
-      const testText = truncated + "...";
-      if (ctx.measureText(testText).width <= maxWidth) {
-        return testText;
+  private drawLegend(): void {
+    const calendarStyles = this.config.calendarStyles;
+    if (!calendarStyles.length) return;
+
+    const ctx = this.ctx;
+    const top = this.viewHeight;
+    const height = this.legendHeight;
+    const padding = 8;
+    const sampleWidth = 40;
+
+    ctx.fillStyle = "#ffffff";
+    ctx.fillRect(0, top, this.width, height);
+
+    ctx.strokeStyle = this.styles.textColor;
+    ctx.lineWidth = 1;
+    ctx.beginPath();
+    ctx.moveTo(0, top);
+    ctx.lineTo(this.width, top);
+    ctx.stroke();
+
+    ctx.font = this.fontStr(this.styles.hoursFontSize);
+    ctx.textAlign = "left";
+    ctx.textBaseline = "middle";
+
+    let x = padding;
+    for (const style of calendarStyles) {
+      const label = style.label ?? style.calendar;
+      const labelWidth = ctx.measureText(label).width;
+      if (x + sampleWidth + padding + labelWidth > this.width) break;
+
+      this.drawEventBox(
+        x,
+        top + padding,
+        sampleWidth,
+        height - 2 * padding,
+        4,
+        { continuesBefore: false, continuesAfter: false },
+        "horizontal",
+        style,
+        false,
+      );
+      if (style.glyph) {
+        this.drawEventText(style.glyph, x + 4, top + height / 2, style);
       }
+
+      ctx.fillStyle = this.styles.textColor;
+      this.fillText(label, x + sampleWidth + padding, top + height / 2);
+      x += sampleWidth + labelWidth + 3 * padding;
+    }
+  }
+
+  /**
+   * Draw text. When the layout is mirrored for a right-to-left locale,
+   * the text is mirrored back around its anchor, and its alignment swapped.
+   */
+  private fillText(text: string, x: number, y: number): void {
+    const ctx = this.ctx;
+    if (!this.rtl) return ctx.fillText(text, x, y);
+
+    const align = ctx.textAlign;
+    ctx.save();
+    ctx.translate(x, y);
+    ctx.scale(-1, 1);
+    if (align === "left" || align === "start") ctx.textAlign = "right";
+    if (align === "right" || align === "end") ctx.textAlign = "left";
+    ctx.fillText(text, 0, 0);
+    ctx.restore();
+  }
+
+  /**
+   * Formats a time in the configured locale, compactly: `9am` or `9:30pm` with the 12-hour clock,
+   * `9:00` or `21:30` with the 24-hour clock
+   * @param withMinutes - Whether to show the minutes of full hours with the 12-hour clock
+   */
+  private formatTime(date: DateTime, withMinutes = false): string {
+    const text = date.setLocale(this.config.locale).toLocaleString({
+      hour: "numeric",
+      minute:
+        withMinutes || date.minute || !this.hour12 ? "2-digit" : undefined,
+      hour12: this.hour12,
+    });
+
+    // "9:30 AM" is shortened to "9:30am"
+    return text.replace(/[\s\u202f]*([AP])\.?M\.?$/i, (_, letter: string) =>
+      `${letter}m`.toLowerCase(),
+    );
+  }
+
+  /**
+   * Formats a date in the configured locale
+   * @param style - `weekday`: day name ("Mon"), `numeric`: day and month ("10/19"),
+   *   `short`: day name, day and month ("Mon, 10/19"), `long`: "Monday, October 19"
+   */
+  private formatDay(
+    date: DateTime,
+    style: "weekday" | "numeric" | "short" | "long",
+  ): string {
+    const formats: Record<typeof style, Intl.DateTimeFormatOptions> = {
+      weekday: { weekday: "short" },
+      numeric: { month: "numeric", day: "numeric" },
+      short: { weekday: "short", month: "numeric", day: "numeric" },
+      long: { weekday: "long", month: "long", day: "numeric" },
+    };
+    return date.setLocale(this.config.locale).toLocaleString(formats[style]);
+  }
+
+  /**
+   * Draw a small marker in the bottom right corner, listing the calendars that failed
+   * without usable cache, and the "last updated" time when some of the events come from the cache
+   */
+  private drawStatusMarker(
+    lastUpdate: DateTime | null,
+    failed: string[],
+  ): void {
+    const ctx = this.ctx;
+    const padding = 6;
+    const fontSize = this.styles.hoursFontSize;
+
+    const parts = [] as string[];
+    if (failed.length) {
+      parts.push(this.labels.unavailable(failed.join(", ")));
+    }
+    if (lastUpdate) {
+      const date = lastUpdate.setZone(this.now().zone);
+      const time = date.hasSame(this.now(), "day")
+        ? this.formatTime(date)
+        : `${this.formatDay(date, "numeric")} ${this.formatTime(date)}`;
+      parts.push(this.labels.lastUpdated(time));
     }
-    return "...";
+
+    ctx.font = this.fontStr(fontSize);
+    const text = this.truncateText(parts.join(" · "), this.width - 4 * padding);
+    const width = ctx.measureText(text).width + 2 * padding;
+    const height = fontSize + 2 * padding;
+    const x = this.width - width - padding;
+    const y = this.viewHeight - height - padding;
+
+    ctx.fillStyle = "#ffffff";
+    ctx.strokeStyle = this.styles.textColor;
+    ctx.lineWidth = 2;
+    ctx.beginPath();
+    ctx.roundRect(x, y, width, height, 5);
+    ctx.fill();
+    ctx.stroke();
+
+    ctx.fillStyle = this.styles.textColor;
+    ctx.textAlign = "left";
+    ctx.textBaseline = "middle";
+    this.fillText(text, x + padding, y + height / 2);
   }
 
   /**
@@ -788,11 +1930,7 @@ export class CalendarPlugin extends BasePlugin<CalendarConfig> {
     ctx.fillText("Calendar Error", this.screenWidth / 2, 30);
 
     ctx.font = this.fontStr(this.styles.hoursFontSize);
-    const truncatedMessage = this.truncateText(
-      message,
-      this.screenWidth - 40,
-      ctx,
-    );
+    const truncatedMessage = this.truncateText(message, this.screenWidth - 40);
     ctx.fillText(truncatedMessage, this.screenWidth / 2, 50);
   }
 }
@@ -1,9 +1,20 @@
 import { BasePlugin } from "../basePlugin";
+import { Infer, ObjectSchema } from "../../configSchema";
+
+const EXAMPLE_CONFIG_SCHEMA = {
+  type: "object",
+  properties: {
+    config1: { type: "string", required: true },
+    config2: { type: "number", default: 42 },
+  },
+} as const satisfies ObjectSchema;
+
+export class ExamplePlugin extends BasePlugin<
+  Infer<typeof EXAMPLE_CONFIG_SCHEMA>
+> {
+  // Validates the config, and applies its defaults, before the plugin is created
+  static configSchema = EXAMPLE_CONFIG_SCHEMA;
 
-export class ExamplePlugin extends BasePlugin<{
-  config1: string;
-  config2: number;
-}> {
   async onStart(): Promise<void> {
     this.log("Example plugin started", "info");
   }
@@ -0,0 +1,309 @@
+import axios from "axios";
+import fs from "fs";
+import path from "path";
+import { DateTime, IANAZone } from "luxon";
+import { Infer, ObjectSchema } from "../../configSchema";
+import { Box, rem } from "../layout";
+import { SCREEN_CONFIG_SCHEMA, ScreenPlugin } from "../screen";
+import { parseJsonPath, queryJsonPath } from "./jsonPath";
+
+/**
+ * Last good response of the endpoint, persisted to be displayed when the endpoint fails
+ */
+interface CachedResponse {
+  /** URL the response was fetched from, the cache is ignored when it changes */
+  url: string;
+  fetchedAt: string;
+  data: unknown;
+}
+
+function validateJsonPath(expression: string) {
+  try {
+    parseJsonPath(expression);
+  } catch (error) {
+    return (error as Error).message;
+  }
+}
+
+const FIELD_SCHEMA = {
+  type: "object",
+  properties: {
+    name: { type: "string", pattern: /^[A-Za-z_]\w*$/, required: true },
+    path: { type: "string", required: true, validate: validateJsonPath },
+    format: {
+      type: "string",
+      enum: ["text", "number", "date"],
+      default: "text",
+    },
+    /** Number of decimals of the numbers */
+    decimals: { type: "number", integer: true, min: 0, max: 20 },
+    /** Text appended to the value, e.g. `°C` or ` km/h` */
+    unit: { type: "string" },
+    /** Luxon format of the dates, or `relative` (e.g. "5 minutes ago") */
+    dateFormat: { type: "string", default: "ff" },
+    /** Value used when the path matches nothing */
+    default: { type: "string" },
+  },
+} as const satisfies ObjectSchema;
+
+type Field = Infer<typeof FIELD_SCHEMA>;
+
+const JSON_CONFIG_SCHEMA = {
+  type: "object",
+  properties: {
+    ...SCREEN_CONFIG_SCHEMA.properties,
+    request: {
+      type: "object",
+      required: true,
+      properties: {
+        url: { type: "string", required: true, pattern: /^https?:\/\//i },
+        method: {
+          type: "string",
+          enum: ["GET", "POST", "PUT", "PATCH"],
+          default: "GET",
+        },
+        headers: {
+          type: "object",
+          properties: {},
+          additionalProperties: true,
+          default: {},
+        },
+        body: { type: "string" },
+        auth: {
+          type: "object",
+          properties: {
+            username: { type: "string" },
+            password: { type: "string" },
+            token: { type: "string" },
+          },
+          validate: (auth) =>
+            !auth.token === (auth.username === undefined)
+              ? "auth needs either a username and a password, or a token"
+              : undefined,
+        },
+        timeoutSeconds: { type: "number", min: 1, default: 30 },
+      },
+    },
+    fields: { type: "array", items: FIELD_SCHEMA, default: [] },
+    locale: { type: "string", default: "en-US" },
+    timezone: {
+      type: "string",
+      validate: (zone) =>
+        IANAZone.isValidZone(zone) ? undefined : "must be a valid IANA zone",
+    },
+    maxCacheAgeHours: { type: "number", min: 0, default: 24 },
+  },
+} as const satisfies ObjectSchema;
+
+type JsonConfig = Infer<typeof JSON_CONFIG_SCHEMA>;
+
+/**
+ * Polls a JSON endpoint, and draws the values extracted from the response in a screen layout
+ */
+export class JsonPlugin extends ScreenPlugin<JsonConfig> {
+  static configSchema: ObjectSchema = JSON_CONFIG_SCHEMA;
+
+  private response: CachedResponse | null = null;
+
+  /**
+   * Set when the endpoint failed, and the cached response is displayed
+   */
+  private stale = false;
+
+  private get cachePath() {
+    return path.join(this.dataDir, "response.json");
+  }
+
+  async onStart(): Promise<void> {
+    await super.onStart();
+    this.response = await this.loadCache();
+  }
+
+  async onBeforeRender(): Promise<void> {
+    try {
+      const data = await this.fetchData();
+      this.response = {
+        url: this.config.request.url,
+        fetchedAt: DateTime.now().toISO()!,
+        data,
+      };
+      this.stale = false;
+      await this.saveCache(this.response);
+    } catch (error) {
+      const cache = this.response;
+      const age = cache
+        ? DateTime.now().diff(DateTime.fromISO(cache.fetchedAt), "hours").hours
+        : Infinity;
+
+      if (!cache || age > this.config.maxCacheAgeHours) throw error;
+
+      this.log(
+        `${(error as Error).message}, using the cached response`,
+        "warn",
+      );
+      this.stale = true;
+    }
+  }
+
+  protected async getVariables(): Promise<Record<string, unknown>> {
+    const data = this.response?.data;
+    const variables: Record<string, unknown> = {
+      ...this.config.variables,
+      ...this.pushedVariables,
+      response: data,
+      fetchedAt: this.response && this.formatDate(this.response.fetchedAt, "t"),
+      stale: this.stale,
+    };
+
+    for (const field of this.config.fields) {
+      variables[field.name] = this.formatField(
+        queryJsonPath(data, field.path),
+        field,
+      );
+    }
+
+    return variables;
+  }
+
+  protected async draw(): Promise<void> {
+    await super.draw();
+    if (this.stale && this.response) this.drawStaleMarker(this.response);
+  }
+
+  private async fetchData(): Promise<unknown> {
+    const { url, method, headers, body, auth, timeoutSeconds } =
+      this.config.request;
+
+    try {
+      const response = await axios.request({
+        url,
+        method,
+        data: body,
+        headers: {
+          Accept: "application/json",
+          ...(auth?.token && { Authorization: `Bearer ${auth.token}` }),
+          ...(headers as Record<string, string>),
+        },
+        auth:
+          auth?.username !== undefined
+            ? { username: auth.username, password: auth.password ?? "" }
+            : undefined,
+        responseType: "text",
+        timeout: timeoutSeconds * 1000,
+      });
+      return JSON.parse(response.data);
+    } catch (error) {
+      throw new Error(`Failed to fetch ${url}: ${(error as Error).message}`);
+    }
+  }
+
+  /**
+   * Formats an extracted value. The values of wildcard paths are formatted one by one.
+   */
+  private formatField(value: unknown, field: Field): unknown {
+    if (Array.isArray(value) && field.path.includes("*")) {
+      return value.map((item) => this.formatField(item, field));
+    }
+    if (value === undefined || value === null) return field.default ?? "";
+
+    let text: string;
+    switch (field.format) {
+      case "number": {
+        const number = Number(value);
+        text = Number.isNaN(number)
+          ? String(value)
+          : number.toLocaleString(this.config.locale, {
+              minimumFractionDigits: field.decimals,
+              maximumFractionDigits: field.decimals,
+            });
+        break;
+      }
+      case "date":
+        text = this.formatDate(value, field.dateFormat) ?? String(value);
+        break;
+      default:
+        // Objects and arrays are kept, so they can be displayed by lists and tables
+        if (typeof value === "object") return value;
+        text = String(value);
+    }
+
+    return field.unit ? text + field.unit : text;
+  }
+
+  /**
+   * Formats a date given as an ISO string or a timestamp (in seconds or milliseconds)
+   * @returns null if the value is not a date
+   */
+  private formatDate(value: unknown, format: string): string | null {
+    let date =
+      typeof value === "number"
+        ? DateTime.fromMillis(value < 1e12 ? value * 1000 : value)
+        : DateTime.fromISO(String(value));
+    if (!date.isValid) return null;
+
+    date = date.setLocale(this.config.locale);
+    if (this.config.timezone) date = date.setZone(this.config.timezone);
+
+    return format === "relative" ? date.toRelative() : date.toFormat(format);
+  }
+
+  private async loadCache(): Promise<CachedResponse | null> {
+    try {
+      const json = await fs.promises.readFile(this.cachePath, "utf8");
+      const cache = JSON.parse(json) as CachedResponse;
+      return cache.url === this.config.request.url ? cache : null;
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code !== "ENOENT") {
+        this.log(`Ignoring unreadable response cache: ${error}`, "warn");
+      }
+      return null;
+    }
+  }
+
+  private async saveCache(cache: CachedResponse): Promise<void> {
+    const cachePath = this.cachePath;
+    try {
+      // Writing to a temporary file first, so a crash can't leave a truncated cache
+      await fs.promises.writeFile(`${cachePath}.tmp`, JSON.stringify(cache));
+      await fs.promises.rename(`${cachePath}.tmp`, cachePath);
+    } catch (error) {
+      this.log(`Failed to save the response cache: ${error}`, "warn");
+    }
+  }
+
+  /**
+   * Draws the time of the cached response in the bottom right corner
+   */
+  private drawStaleMarker(cache: CachedResponse): void {
+    const fetchedAt = DateTime.fromISO(cache.fetchedAt);
+    const time = fetchedAt.hasSame(DateTime.now(), "day") ? "t" : "D t";
+    const text = `Last updated ${this.formatDate(cache.fetchedAt, time)}`;
+    const font = { size: rem(0.8), weight: "bold" as const };
+    const padding = 6;
+
+    this.ctx.font = `bold ${font.size}px ${this.config.fontFamily}`;
+    const width = this.ctx.measureText(text).width + 2 * padding;
+    const height = font.size + 2 * padding;
+    const box: Box = {
+      x: this.screenWidth - width - padding,
+      y: this.screenHeight - height - padding,
+      width,
+      height,
+    };
+
+    this.drawPanel(box, {
+      radius: 5,
+      fill: "#ffffff",
+      stroke: "#000000",
+      lineWidth: 2,
+    });
+    this.drawText(text, box, {
+      font: { ...font, family: this.config.fontFamily },
+      align: "center",
+      verticalAlign: "middle",
+      overflow: "truncate",
+    });
+  }
+}
+
+export default JsonPlugin;
@@ -0,0 +1,85 @@
+type Segment = { key: string } | { index: number } | { wildcard: true };
+
+/**
+ * Parses a JSONPath-style expression, e.g. `$.main.temp`, `$.items[0]["display name"]` or `$.items[*].name`.
+ * Supported: `$`, `.key`, `["key"]`, `['key']`, `[0]`, `[-1]` (from the end), `[*]` and `.*`.
+ * @throws Error if the expression is invalid
+ */
+export function parseJsonPath(expression: string): Segment[] {
+  const segments: Segment[] = [];
+  let i = expression.startsWith("$") ? 1 : 0;
+
+  const fail = (): never => {
+    throw new Error(
+      `Invalid JSONPath ${JSON.stringify(expression)} at position ${i}`,
+    );
+  };
+
+  while (i < expression.length) {
+    const rest = expression.slice(i);
+    let match: RegExpExecArray | null;
+
+    if ((match = /^\.\*|^\[\*\]/.exec(rest))) {
+      segments.push({ wildcard: true });
+    } else if ((match = /^\.([^.[\]]+)/.exec(rest))) {
+      segments.push({ key: match[1] });
+    } else if (i === 0 && (match = /^([^.[\]]+)/.exec(rest))) {
+      // The `$.` prefix is optional
+      segments.push({ key: match[1] });
+    } else if ((match = /^\[(-?\d+)\]/.exec(rest))) {
+      segments.push({ index: Number(match[1]) });
+    } else if ((match = /^\[(?:"((?:[^"\\]|\\.)*)"|'([^']*)')\]/.exec(rest))) {
+      segments.push({
+        key: match[1] !== undefined ? JSON.parse(`"${match[1]}"`) : match[2],
+      });
+    } else {
+      fail();
+    }
+
+    i += match![0].length;
+  }
+
+  return segments;
+}
+
+function children(value: unknown): unknown[] {
+  if (Array.isArray(value)) return value;
+  if (value !== null && typeof value === "object") return Object.values(value);
+  return [];
+}
+
+function child(value: unknown, segment: Segment): unknown {
+  if ("index" in segment) {
+    if (!Array.isArray(value)) return undefined;
+    return value[
+      segment.index < 0 ? value.length + segment.index : segment.index
+    ];
+  }
+  if ("key" in segment && value !== null && typeof value === "object") {
+    return (value as Record<string, unknown>)[segment.key];
+  }
+  return undefined;
+}
+
+/**
+ * Extracts a value from a JSON document with a JSONPath-style expression
+ * @returns The value, or undefined if it is missing.
+ *   Expressions with a wildcard return the array of the matching values.
+ */
+export function queryJsonPath(document: unknown, expression: string): unknown {
+  let values = [document];
+  let multiple = false;
+
+  for (const segment of parseJsonPath(expression)) {
+    if ("wildcard" in segment) {
+      values = values.flatMap(children);
+      multiple = true;
+    } else {
+      values = values
+        .map((value) => child(value, segment))
+        .filter((value) => !multiple || value !== undefined);
+    }
+  }
+
+  return multiple ? values : values[0];
+}
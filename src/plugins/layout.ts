@@ -0,0 +1,426 @@
+import { Canvas } from "@napi-rs/canvas";
+
+type Context2D = ReturnType<Canvas["getContext"]>;
+
+/**
+ * Rectangle of the screen a content is drawn in
+ */
+export interface Box {
+  x: number;
+  y: number;
+  width: number;
+  height: number;
+}
+
+/**
+ * Space kept inside a box: the same on all sides, or per side
+ */
+export type Padding =
+  number | { top?: number; right?: number; bottom?: number; left?: number };
+
+/**
+ * Size of a row or column: a number of pixels, or a share of the remaining space (`"1fr"`, `"2fr"`...)
+ */
+export type Size = number | `${number}fr`;
+
+export interface FontOptions {
+  size: number;
+  /** Family of a registered or installed font. Defaults to Arial */
+  family?: string;
+  weight?: "normal" | "bold" | number;
+}
+
+export interface TextOptions {
+  font: FontOptions;
+  /** Defaults to black */
+  color?: string;
+  /** Defaults to `left` */
+  align?: "left" | "center" | "right";
+  /** Defaults to `top` */
+  verticalAlign?: "top" | "middle" | "bottom";
+  /** Height of a line, relative to the font size. Defaults to 1.2 */
+  lineHeight?: number;
+  /**
+   * How text larger than its box is handled:
+   * - `wrap` (default): words are wrapped on several lines, and the last line that fits is truncated
+   * - `truncate`: the text stays on one line, truncated
+   * - `shrink`: the font size is reduced, down to `minFontSize`, until the wrapped text fits
+   */
+  overflow?: "wrap" | "truncate" | "shrink";
+  /** Maximum number of lines, in addition to the height of the box */
+  maxLines?: number;
+  /** Smallest font size used by the `shrink` overflow. Defaults to 8 */
+  minFontSize?: number;
+  padding?: Padding;
+}
+
+/**
+ * Text laid out in a box, as drawn by `drawText()`
+ */
+export interface TextLayout {
+  lines: string[];
+  fontSize: number;
+  /** Height of the lines, in pixels */
+  height: number;
+}
+
+export interface PanelOptions {
+  /** Radius of the corners, or of each corner (top-left, top-right, bottom-right, bottom-left) */
+  radius?: number | number[];
+  fill?: string;
+  stroke?: string;
+  /** Defaults to 1 */
+  lineWidth?: number;
+  dash?: number[];
+}
+
+export interface DividerOptions {
+  /** Defaults to black */
+  color?: string;
+  /** Defaults to 1 */
+  lineWidth?: number;
+  dash?: number[];
+}
+
+const ELLIPSIS = "...";
+
+/**
+ * Utility function to convert rem units to pixels
+ */
+export function rem(value: number) {
+  return Math.round(value * 20);
+}
+
+/**
+ * Get the CSS font string of a font, e.g. `bold 16px Arial`
+ */
+export function fontString(font: FontOptions): string {
+  return `${font.weight ?? "normal"} ${font.size}px ${font.family ?? "Arial"}`;
+}
+
+/**
+ * Get the box left inside a box after removing its padding
+ */
+export function inset(box: Box, padding: Padding): Box {
+  const {
+    top = 0,
+    right = 0,
+    bottom = 0,
+    left = 0,
+  } = typeof padding === "number"
+    ? { top: padding, right: padding, bottom: padding, left: padding }
+    : padding;
+
+  return {
+    x: box.x + left,
+    y: box.y + top,
+    width: Math.max(0, box.width - left - right),
+    height: Math.max(0, box.height - top - bottom),
+  };
+}
+
+/**
+ * Splits a length between sizes in pixels and shares of the remaining space
+ * @returns The offset and length of each part
+ */
+function distribute(length: number, sizes: Size[], gap: number) {
+  const fixed = sizes.reduce<number>(
+    (total, size) => total + (typeof size === "number" ? size : 0),
+    0,
+  );
+  const fractions = sizes.reduce<number>(
+    (total, size) => total + (typeof size === "number" ? 0 : parseFloat(size)),
+    0,
+  );
+  const remaining = Math.max(
+    0,
+    length - fixed - gap * Math.max(0, sizes.length - 1),
+  );
+
+  let offset = 0;
+  return sizes.map((size) => {
+    const part =
+      typeof size === "number"
+        ? size
+        : fractions
+          ? (remaining * parseFloat(size)) / fractions
+          : 0;
+    const result = { offset, length: part };
+    offset += part + gap;
+    return result;
+  });
+}
+
+/**
+ * Splits a box into rows, from top to bottom
+ * @param sizes - Height of each row
+ * @param gap - Space between the rows
+ */
+export function rows(box: Box, sizes: Size[], gap = 0): Box[] {
+  return distribute(box.height, sizes, gap).map(({ offset, length }) => ({
+    x: box.x,
+    y: box.y + offset,
+    width: box.width,
+    height: length,
+  }));
+}
+
+/**
+ * Splits a box into columns, from left to right
+ * @param sizes - Width of each column
+ * @param gap - Space between the columns
+ */
+export function columns(box: Box, sizes: Size[], gap = 0): Box[] {
+  return distribute(box.width, sizes, gap).map(({ offset, length }) => ({
+    x: box.x + offset,
+    y: box.y,
+    width: length,
+    height: box.height,
+  }));
+}
+
+/**
+ * Splits a box into a grid of cells of the same size
+ * @returns The cells, row by row
+ */
+export function grid(
+  box: Box,
+  columnCount: number,
+  rowCount: number,
+  gap = 0,
+): Box[] {
+  return rows(box, Array(rowCount).fill("1fr"), gap).flatMap((row) =>
+    columns(row, Array(columnCount).fill("1fr"), gap),
+  );
+}
+
+/**
+ * Truncate text to fit within specified width, measured with the current font
+ */
+export function truncateText(
+  ctx: Context2D,
+  text: string,
+  maxWidth: number,
+): string {
+  if (ctx.measureText(text).width <= maxWidth) {
+    return text;
+  }
+
+  let truncated = text;
+  while (truncated.length > 0) {
+    truncated = truncated.slice(0, -1);
+    const testText = truncated.trimEnd() + ELLIPSIS;
+    if (ctx.measureText(testText).width <= maxWidth) {
+      return testText;
+    }
+  }
+  return ELLIPSIS;
+}
+
+/**
+ * Sets the font of the context to the largest size, down to `minFontSize`, at which text fits on one line
+ * @returns The font size used
+ */
+export function fitFont(
+  ctx: Context2D,
+  text: string,
+  maxWidth: number,
+  font: FontOptions,
+  minFontSize = 8,
+): number {
+  let size = font.size;
+  ctx.font = fontString(font);
+  while (size > minFontSize && ctx.measureText(text).width > maxWidth) {
+    size--;
+    ctx.font = fontString({ ...font, size });
+  }
+  return size;
+}
+
+/**
+ * Wraps text on lines fitting within a width, measured with the current font.
+ * Words longer than a line, and texts without spaces (e.g. Japanese), are split between characters.
+ * @param maxLines - Maximum number of lines. The last line is truncated when the text doesn't fit
+ */
+export function wrapText(
+  ctx: Context2D,
+  text: string,
+  maxWidth: number,
+  maxLines = Infinity,
+): string[] {
+  const fits = (line: string) => ctx.measureText(line).width <= maxWidth;
+  const lines = [] as string[];
+
+  for (const paragraph of text.split("\n")) {
+    let line = "";
+
+    for (const word of paragraph.split(" ")) {
+      const testLine = line ? `${line} ${word}` : word;
+      if (fits(testLine)) {
+        line = testLine;
+        continue;
+      }
+
+      if (line) lines.push(line);
+      line = "";
+
+      // Splitting the word between its characters
+      for (const char of word) {
+        if (line && !fits(line + char)) {
+          lines.push(line);
+          line = "";
+        }
+        line += char;
+      }
+    }
+
+    lines.push(line);
+  }
+
+  if (lines.length > maxLines) {
+    const kept = lines.slice(0, Math.max(1, maxLines));
+    const last = kept.length - 1;
+    kept[last] = truncateText(ctx, kept[last] + ELLIPSIS, maxWidth);
+    return kept;
+  }
+
+  return lines;
+}
+
+/**
+ * Lays out text in a box, without drawing it. Sets the font of the context to the font used.
+ */
+export function layoutText(
+  ctx: Context2D,
+  text: string,
+  box: Box,
+  options: TextOptions,
+): TextLayout {
+  const {
+    font,
+    lineHeight = 1.2,
+    overflow = "wrap",
+    minFontSize = 8,
+  } = options;
+  const content = options.padding ? inset(box, options.padding) : box;
+
+  const layout = (fontSize: number) => {
+    ctx.font = fontString({ ...font, size: fontSize });
+    const linePixels = fontSize * lineHeight;
+    const maxLines = Math.min(
+      options.maxLines ?? Infinity,
+      Math.max(1, Math.floor(content.height / linePixels)),
+    );
+
+    const lines =
+      overflow === "truncate"
+        ? [truncateText(ctx, text.replace(/\n/g, " "), content.width)]
+        : wrapText(ctx, text, content.width, maxLines);
+    return { lines, fontSize, height: lines.length * linePixels };
+  };
+
+  if (overflow !== "shrink") return layout(font.size);
+
+  // Largest font size at which all the text fits
+  for (let fontSize = font.size; fontSize > minFontSize; fontSize--) {
+    ctx.font = fontString({ ...font, size: fontSize });
+    const linePixels = fontSize * lineHeight;
+    const lines = wrapText(ctx, text, content.width);
+    const fitsHeight = lines.length * linePixels <= content.height;
+    if (fitsHeight && lines.length <= (options.maxLines ?? Infinity)) {
+      return { lines, fontSize, height: lines.length * linePixels };
+    }
+  }
+
+  return layout(minFontSize);
+}
+
+/**
+ * Draws text in a box, with the overflow, alignment and padding of the options
+ * @returns The lines drawn, and the font size used
+ */
+export function drawText(
+  ctx: Context2D,
+  text: string,
+  box: Box,
+  options: TextOptions,
+): TextLayout {
+  const result = layoutText(ctx, text, box, options);
+  const content = options.padding ? inset(box, options.padding) : box;
+  const { align = "left", verticalAlign = "top", lineHeight = 1.2 } = options;
+  const linePixels = result.fontSize * lineHeight;
+
+  const top =
+    verticalAlign === "top"
+      ? content.y
+      : verticalAlign === "middle"
+        ? content.y + (content.height - result.height) / 2
+        : content.y + content.height - result.height;
+  const x =
+    align === "left"
+      ? content.x
+      : align === "center"
+        ? content.x + content.width / 2
+        : content.x + content.width;
+
+  ctx.fillStyle = options.color ?? "#000000";
+  ctx.textAlign = align;
+  ctx.textBaseline = "middle";
+  result.lines.forEach((line, i) => {
+    ctx.fillText(line, x, top + (i + 0.5) * linePixels);
+  });
+
+  return result;
+}
+
+/**
+ * Draws a rectangle, with rounded corners, a fill and an outline
+ */
+export function drawPanel(
+  ctx: Context2D,
+  box: Box,
+  options: PanelOptions = {},
+): void {
+  const { radius = 0, lineWidth = 1 } = options;
+
+  ctx.beginPath();
+  ctx.roundRect(box.x, box.y, box.width, box.height, radius);
+
+  if (options.fill) {
+    ctx.fillStyle = options.fill;
+    ctx.fill();
+  }
+
+  if (options.stroke) {
+    ctx.strokeStyle = options.stroke;
+    ctx.lineWidth = lineWidth;
+    ctx.setLineDash(options.dash ?? []);
+    ctx.stroke();
+    ctx.setLineDash([]);
+  }
+}
+
+/**
+ * Draws a line through the middle of a box, along its longest side
+ */
+export function drawDivider(
+  ctx: Context2D,
+  box: Box,
+  options: DividerOptions = {},
+): void {
+  const horizontal = box.width >= box.height;
+
+  ctx.strokeStyle = options.color ?? "#000000";
+  ctx.lineWidth = options.lineWidth ?? 1;
+  ctx.setLineDash(options.dash ?? []);
+  ctx.beginPath();
+  if (horizontal) {
+    ctx.moveTo(box.x, box.y + box.height / 2);
+    ctx.lineTo(box.x + box.width, box.y + box.height / 2);
+  } else {
+    ctx.moveTo(box.x + box.width / 2, box.y);
+    ctx.lineTo(box.x + box.width / 2, box.y + box.height);
+  }
+  ctx.stroke();
+  ctx.setLineDash([]);
+}
@@ -0,0 +1,328 @@
+import { BasePlugin } from "../basePlugin";
+import { Infer, ObjectSchema } from "../../configSchema";
+import { loadPluginDefinition } from "../../pluginLoader";
+import { Box, columns, grid, inset, rem, rows } from "../layout";
+
+/**
+ * Layouts of the TRMNL mashups: `1Lx2R` is one region on the left and two on the right,
+ * `1Tx2B` one region at the top and two at the bottom...
+ */
+const MASHUP_LAYOUTS = [
+  "1Lx1R",
+  "1Tx1B",
+  "1Lx2R",
+  "2Lx1R",
+  "1Tx2B",
+  "2Tx1B",
+  "2x2",
+] as const;
+
+type MashupLayout = (typeof MASHUP_LAYOUTS)[number];
+
+const TITLE_BAR_HEIGHT = rem(1.6);
+const BORDER_WIDTH = 2;
+const BORDER_RADIUS = rem(0.4);
+
+/**
+ * Splits a box into the regions of a layout, in reading order
+ */
+function layoutRegions(box: Box, layout: MashupLayout, gap: number): Box[] {
+  const halves = ["1fr", "1fr"] as const;
+
+  switch (layout) {
+    case "1Lx1R":
+      return columns(box, [...halves], gap);
+    case "1Tx1B":
+      return rows(box, [...halves], gap);
+    case "1Lx2R": {
+      const [left, right] = columns(box, [...halves], gap);
+      return [left, ...rows(right, [...halves], gap)];
+    }
+    case "2Lx1R": {
+      const [left, right] = columns(box, [...halves], gap);
+      return [...rows(left, [...halves], gap), right];
+    }
+    case "1Tx2B": {
+      const [top, bottom] = rows(box, [...halves], gap);
+      return [top, ...columns(bottom, [...halves], gap)];
+    }
+    case "2Tx1B": {
+      const [top, bottom] = rows(box, [...halves], gap);
+      return [...columns(top, [...halves], gap), bottom];
+    }
+    case "2x2":
+      return grid(box, 2, 2, gap);
+  }
+}
+
+/**
+ * Rounds a box to whole pixels, so the plugins are drawn on sharp edges
+ */
+function roundBox(box: Box): Box {
+  const x = Math.round(box.x);
+  const y = Math.round(box.y);
+  return {
+    x,
+    y,
+    width: Math.round(box.x + box.width) - x,
+    height: Math.round(box.y + box.height) - y,
+  };
+}
+
+const MASHUP_CONFIG_SCHEMA = {
+  type: "object",
+  properties: {
+    layout: { type: "string", enum: MASHUP_LAYOUTS, required: true },
+    regions: {
+      type: "array",
+      required: true,
+      minItems: 2,
+      items: {
+        type: "object",
+        properties: {
+          plugin: { type: "string", minLength: 1, required: true },
+          title: { type: "string" },
+        },
+      },
+    },
+    gap: { type: "number", min: 0, default: 10 },
+    border: { type: "boolean", default: true },
+  },
+  validate: (config) => {
+    const { layout, regions } = config as {
+      layout: string;
+      regions: unknown[];
+    };
+    if (!MASHUP_LAYOUTS.includes(layout as MashupLayout)) return;
+
+    const count = layoutRegions(
+      { x: 0, y: 0, width: 0, height: 0 },
+      layout as MashupLayout,
+      0,
+    ).length;
+    if (regions.length !== count) {
+      return `the ${layout} layout has ${count} regions, but ${regions.length} are configured`;
+    }
+  },
+} as const satisfies ObjectSchema;
+
+type MashupConfig = Infer<typeof MASHUP_CONFIG_SCHEMA>;
+
+interface Region {
+  pluginName: string;
+  title?: string;
+  /** Box of the region, with its border and title bar */
+  box: Box;
+  /** Box in which the plugin is drawn */
+  content: Box;
+  plugin: BasePlugin | null;
+  /** Why the plugin could not be started */
+  error: string | null;
+}
+
+/**
+ * Displays several plugins on the same screen, each one in a region of a layout
+ */
+export class MashupPlugin extends BasePlugin<MashupConfig> {
+  static configSchema = MASHUP_CONFIG_SCHEMA;
+
+  private regions: Region[] = [];
+
+  get dependencies(): string[] {
+    return this.config.regions.map((region) => region.plugin);
+  }
+
+  async onStart(): Promise<void> {
+    const boxes = layoutRegions(
+      this.bounds,
+      this.config.layout,
+      this.config.gap,
+    ).map(roundBox);
+
+    for (let i = 0; i < this.config.regions.length; i++) {
+      const { plugin: pluginName, title } = this.config.regions[i];
+      const box = boxes[i];
+      const region: Region = {
+        pluginName,
+        title,
+        box,
+        content: this.getContentBox(box, title),
+        plugin: null,
+        error: null,
+      };
+      this.regions.push(region);
+
+      try {
+        region.plugin = await this.startPlugin(pluginName, region.content);
+      } catch (error) {
+        region.error = (error as Error).message;
+        this.log(
+          `Failed to start plugin ${pluginName}: ${region.error}`,
+          "error",
+        );
+      }
+    }
+
+    this.log(
+      `Mashup started with ${this.regions.map((r) => r.pluginName).join(", ")}`,
+      "info",
+    );
+  }
+
+  async onStop(): Promise<void> {
+    for (const { plugin } of this.regions) {
+      try {
+        await plugin?.onStop();
+      } catch (error) {
+        plugin?.log(`Failed to stop plugin: ${error}`, "error");
+      }
+    }
+    this.regions = [];
+  }
+
+  async onAfterRender(image: string): Promise<void> {
+    for (const { plugin } of this.regions) {
+      try {
+        await plugin?.onAfterRender(image);
+      } catch (error) {
+        plugin?.log(`onAfterRender failed: ${error}`, "error");
+      }
+    }
+  }
+
+  async pushTo(
+    pluginName: string,
+    variables: Record<string, unknown>,
+  ): Promise<void> {
+    await super.pushTo(pluginName, variables);
+
+    // The plugins of the regions may be disabled, and then only receive pushes through the mashup
+    for (const { plugin } of this.regions) {
+      if (plugin?.pluginName === pluginName) await plugin.push(variables);
+    }
+  }
+
+  protected async draw(): Promise<void> {
+    // The plugins are rendered at the same time, as they mostly wait for their data
+    await Promise.all(this.regions.map((region) => region.plugin?.render()));
+
+    for (const region of this.regions) {
+      this.drawRegion(region);
+    }
+  }
+
+  /**
+   * Get the box in which the plugin of a region is drawn, inside its border and above its title bar
+   */
+  private getContentBox(box: Box, title?: string): Box {
+    const content = this.config.border ? inset(box, BORDER_WIDTH) : box;
+    if (!title) return content;
+
+    return {
+      ...content,
+      height: Math.max(0, content.height - TITLE_BAR_HEIGHT),
+    };
+  }
+
+  /**
+   * Get the radius of the corners of the content box, following the rounded border.
+   * The bottom corners are square when they touch the title bar.
+   */
+  private getContentRadius(region: Region): number[] {
+    if (!this.config.border) return [0];
+
+    const radius = BORDER_RADIUS - BORDER_WIDTH;
+    return region.title ? [radius, radius, 0, 0] : [radius];
+  }
+
+  /**
+   * Instantiates and starts a plugin, at the size of its region
+   */
+  private async startPlugin(pluginName: string, content: Box) {
+    if (pluginName === this.pluginName) {
+      throw new Error("A mashup can't display itself");
+    }
+
+    // Disabled plugins can be displayed, so they are not also uploaded on their own
+    const definition = loadPluginDefinition(pluginName, {
+      includeDisabled: true,
+    })!;
+
+    if (
+      definition.Plugin === MashupPlugin ||
+      definition.Plugin.prototype instanceof MashupPlugin
+    ) {
+      throw new Error("Mashups can't be nested");
+    }
+
+    const plugin = new definition.Plugin(
+      pluginName,
+      content.width,
+      content.height,
+      definition.config,
+      this.deviceInfo,
+    );
+    await plugin.onStart();
+    return plugin;
+  }
+
+  private drawRegion(region: Region) {
+    const ctx = this.ctx;
+    const { box, content } = region;
+
+    ctx.save();
+    ctx.beginPath();
+    ctx.roundRect(
+      content.x,
+      content.y,
+      content.width,
+      content.height,
+      this.getContentRadius(region),
+    );
+    ctx.clip();
+
+    if (region.plugin) {
+      ctx.drawImage(region.plugin.canvas, content.x, content.y);
+    } else {
+      this.drawText(
+        `${region.pluginName}: ${region.error ?? "not started"}`,
+        content,
+        {
+          font: { size: rem(0.8), weight: "bold" },
+          color: "#ff6961",
+          align: "center",
+          verticalAlign: "middle",
+          padding: rem(0.5),
+        },
+      );
+    }
+    ctx.restore();
+
+    if (region.title) {
+      const titleBar: Box = {
+        x: content.x,
+        y: content.y + content.height,
+        width: content.width,
+        height: TITLE_BAR_HEIGHT,
+      };
+      this.drawDivider({ ...titleBar, y: titleBar.y - 1, height: 2 });
+      this.drawText(region.title, titleBar, {
+        font: { size: rem(0.9), weight: "bold" },
+        verticalAlign: "middle",
+        overflow: "truncate",
+        padding: { left: rem(0.5), right: rem(0.5) },
+      });
+    }
+
+    if (this.config.border) {
+      const half = BORDER_WIDTH / 2;
+      this.drawPanel(inset(box, half), {
+        radius: BORDER_RADIUS,
+        stroke: "#000000",
+        lineWidth: BORDER_WIDTH,
+      });
+    }
+  }
+}
+
+export default MashupPlugin;
@@ -0,0 +1,718 @@
+import { Canvas, Image, loadImage } from "@napi-rs/canvas";
+import path from "path";
+import {
+  ConfigIssue,
+  Infer,
+  ObjectSchema,
+  validateConfig,
+} from "../../configSchema";
+import {
+  Box,
+  columns,
+  drawDivider,
+  drawPanel,
+  drawText,
+  grid,
+  inset,
+  rem,
+  rows,
+  Size,
+} from "../layout";
+import { drawIcon, ICON_NAMES } from "./icons";
+
+type Context2D = ReturnType<Canvas["getContext"]>;
+
+const TEMPLATE_REGEX = /\{\{\s*([^{}\s]+)\s*\}\}/g;
+
+/**
+ * Delay (ms) after which the download of a remote image is abandoned
+ */
+const REMOTE_IMAGE_TIMEOUT = 10 * 1000;
+
+/**
+ * Delay (ms) during which a remote image is reused instead of being downloaded again
+ */
+const REMOTE_IMAGE_TTL = 15 * 60 * 1000;
+
+/**
+ * Get a variable from its path, e.g. `weather.temperature` or `todos[0].title`
+ */
+export function getVariable(
+  variables: Record<string, unknown>,
+  variablePath: string,
+): unknown {
+  return variablePath
+    .replace(/\[(\d+)\]/g, ".$1")
+    .split(".")
+    .reduce<unknown>(
+      (value, key) =>
+        value !== null && typeof value === "object"
+          ? (value as Record<string, unknown>)[key]
+          : undefined,
+      variables,
+    );
+}
+
+function formatVariable(value: unknown): string {
+  if (value === undefined || value === null) return "";
+  if (Array.isArray(value)) return value.map(formatVariable).join(", ");
+  if (typeof value === "object") return JSON.stringify(value);
+  return String(value);
+}
+
+/**
+ * Replaces the `{{ variable }}` placeholders of a template by the values of the variables.
+ * Missing variables are replaced by an empty string.
+ */
+export function interpolate(
+  template: string,
+  variables: Record<string, unknown>,
+): string {
+  return template.replace(TEMPLATE_REGEX, (_match, variablePath: string) =>
+    formatVariable(getVariable(variables, variablePath)),
+  );
+}
+
+function validateSize(size: string | number | boolean) {
+  if (typeof size === "number") {
+    return size < 0 ? "must be at least 0" : undefined;
+  }
+  if (!/^\d+(\.\d+)?fr$/.test(String(size))) {
+    return `must be a number of pixels or a share like "1fr", got ${JSON.stringify(size)}`;
+  }
+}
+
+const ANY_ELEMENT = {
+  type: "object",
+  properties: {},
+  additionalProperties: true,
+} as const satisfies ObjectSchema;
+
+const TYPE = { type: "string", required: true } as const;
+
+const SIZE = { type: ["number", "string"], validate: validateSize } as const;
+
+const FONT_PROPERTIES = {
+  size: { type: "number", min: 1, default: rem(1) },
+  weight: { type: "string", enum: ["normal", "bold"], default: "normal" },
+  color: { type: "string", default: "#000000" },
+} as const;
+
+const CONTAINER_PROPERTIES = {
+  type: TYPE,
+  children: { type: "array", items: ANY_ELEMENT, minItems: 1, required: true },
+  gap: { type: "number", min: 0, default: 10 },
+} as const;
+
+/**
+ * Schemas of the elements of a screen, by type
+ */
+const ELEMENT_SCHEMAS = {
+  rows: {
+    type: "object",
+    properties: {
+      ...CONTAINER_PROPERTIES,
+      sizes: { type: "array", items: SIZE },
+    },
+  },
+  columns: {
+    type: "object",
+    properties: {
+      ...CONTAINER_PROPERTIES,
+      sizes: { type: "array", items: SIZE },
+    },
+  },
+  grid: {
+    type: "object",
+    properties: {
+      ...CONTAINER_PROPERTIES,
+      columns: { type: "number", integer: true, min: 1, required: true },
+    },
+  },
+  panel: {
+    type: "object",
+    properties: {
+      type: TYPE,
+      child: { ...ANY_ELEMENT, required: true },
+      border: { type: "boolean", default: true },
+      radius: { type: "number", min: 0, default: rem(0.4) },
+      fill: { type: "string" },
+      padding: { type: "number", min: 0, default: 10 },
+    },
+  },
+  text: {
+    type: "object",
+    properties: {
+      type: TYPE,
+      text: { type: "string", required: true },
+      ...FONT_PROPERTIES,
+      align: {
+        type: "string",
+        enum: ["left", "center", "right"],
+        default: "left",
+      },
+      verticalAlign: {
+        type: "string",
+        enum: ["top", "middle", "bottom"],
+        default: "top",
+      },
+      overflow: {
+        type: "string",
+        enum: ["wrap", "truncate", "shrink"],
+        default: "wrap",
+      },
+      maxLines: { type: "number", integer: true, min: 1 },
+    },
+  },
+  titleBar: {
+    type: "object",
+    properties: {
+      type: TYPE,
+      title: { type: "string", required: true },
+      subtitle: { type: "string" },
+      size: { type: "number", min: 1, default: rem(1) },
+      inverted: { type: "boolean", default: true },
+    },
+  },
+  divider: {
+    type: "object",
+    properties: {
+      type: TYPE,
+      lineWidth: { type: "number", min: 1, default: 2 },
+      dashed: { type: "boolean", default: false },
+    },
+  },
+  list: {
+    type: "object",
+    properties: {
+      type: TYPE,
+      items: { type: "array", items: { type: "string" } },
+      source: { type: "string" },
+      template: { type: "string", default: "{{ item }}" },
+      bullet: { type: "string", default: "•" },
+      maxItems: { type: "number", integer: true, min: 1 },
+      ...FONT_PROPERTIES,
+      size: { type: "number", min: 1, default: rem(0.9) },
+    },
+    validate: (list) =>
+      !list.items === !list.source
+        ? "a list needs either items or a source"
+        : undefined,
+  },
+  table: {
+    type: "object",
+    properties: {
+      type: TYPE,
+      columns: {
+        type: "array",
+        minItems: 1,
+        required: true,
+        items: {
+          type: "object",
+          properties: {
+            header: { type: "string", default: "" },
+            value: { type: "string" },
+            width: SIZE,
+            align: {
+              type: "string",
+              enum: ["left", "center", "right"],
+              default: "left",
+            },
+          },
+        },
+      },
+      rows: {
+        type: "array",
+        items: { type: "array", items: { type: "string" } },
+      },
+      source: { type: "string" },
+      header: { type: "boolean", default: true },
+      maxRows: { type: "number", integer: true, min: 1 },
+      ...FONT_PROPERTIES,
+      size: { type: "number", min: 1, default: rem(0.9) },
+    },
+    validate: (table) => {
+      if (!table.rows === !table.source) {
+        return "a table needs either rows or a source";
+      }
+      const columns = table.columns as { value?: string }[];
+      if (
+        table.source &&
+        columns.some((column) => column.value === undefined)
+      ) {
+        return "the columns of a table with a source need a value";
+      }
+    },
+  },
+  image: {
+    type: "object",
+    properties: {
+      type: TYPE,
+      src: { type: "string", minLength: 1, required: true },
+      fit: {
+        type: "string",
+        enum: ["contain", "cover", "fill"],
+        default: "contain",
+      },
+    },
+  },
+  icon: {
+    type: "object",
+    properties: {
+      type: TYPE,
+      name: { type: "string", enum: ICON_NAMES, required: true },
+      size: { type: "number", min: 1 },
+      color: { type: "string", default: "#000000" },
+    },
+  },
+} as const satisfies Record<string, ObjectSchema>;
+
+type ElementType = keyof typeof ELEMENT_SCHEMAS;
+
+const ELEMENT_TYPES = Object.keys(ELEMENT_SCHEMAS) as ElementType[];
+
+type ElementOf<T extends ElementType> = Omit<
+  Infer<(typeof ELEMENT_SCHEMAS)[T]>,
+  "type" | "children" | "child"
+> & { type: T };
+
+/**
+ * Element of a screen, with its defaults applied
+ */
+export type ScreenElement =
+  | (ElementOf<"rows" | "columns"> & { children: ScreenElement[] })
+  | (ElementOf<"grid"> & { children: ScreenElement[] })
+  | (ElementOf<"panel"> & { child: ScreenElement })
+  | ElementOf<"text">
+  | ElementOf<"titleBar">
+  | ElementOf<"divider">
+  | ElementOf<"list">
+  | ElementOf<"table">
+  | ElementOf<"image">
+  | ElementOf<"icon">;
+
+/**
+ * Validates an element and its children, and applies their defaults
+ * @param elementPath - JSON path of the element, used in the issues
+ */
+export function parseElement(
+  value: unknown,
+  elementPath: string,
+): { element: ScreenElement; issues: ConfigIssue[] } {
+  const type = (value as { type?: unknown } | null)?.type;
+  if (!ELEMENT_TYPES.includes(type as ElementType)) {
+    return {
+      element: value as ScreenElement,
+      issues: [
+        {
+          path: `${elementPath}.type`,
+          message: `must be one of ${ELEMENT_TYPES.map((t) => JSON.stringify(t)).join(", ")}, got ${JSON.stringify(type)}`,
+        },
+      ],
+    };
+  }
+
+  const result = validateConfig(
+    ELEMENT_SCHEMAS[type as ElementType] as ObjectSchema,
+    value,
+    elementPath,
+  );
+  const element = result.value as Record<string, unknown>;
+  const issues = result.issues;
+
+  if (Array.isArray(element.children)) {
+    const children = element.children.map((child, i) => {
+      const parsed = parseElement(child, `${elementPath}.children[${i}]`);
+      issues.push(...parsed.issues);
+      return parsed.element;
+    });
+    element.children = children;
+
+    const sizes = element.sizes as Size[] | undefined;
+    if (sizes && sizes.length !== children.length) {
+      issues.push({
+        path: `${elementPath}.sizes`,
+        message: `must contain one size per child (${children.length})`,
+      });
+    }
+  }
+
+  if (element.child !== undefined) {
+    const parsed = parseElement(element.child, `${elementPath}.child`);
+    element.child = parsed.element;
+    issues.push(...parsed.issues);
+  }
+
+  return { element: element as ScreenElement, issues };
+}
+
+/**
+ * Image loaded by an image element
+ */
+export interface CachedImage {
+  image: Image;
+  /** Time (ms) after which a remote image is downloaded again. Local images don't expire */
+  expiresAt: number;
+}
+
+/**
+ * What the elements need to be drawn
+ */
+export interface RenderContext {
+  ctx: Context2D;
+  /** Values of the `{{ variable }}` placeholders */
+  variables: Record<string, unknown>;
+  fontFamily: string;
+  /** Directory the relative image paths are resolved from */
+  baseDir: string;
+  /** Images already loaded, by path or URL, kept across renders */
+  images: Map<string, CachedImage>;
+  log: (message: string, level?: "info" | "warn" | "error") => void;
+}
+
+/**
+ * Get the items of a list or the rows of a table from a variable holding an array
+ */
+function getSourceItems(context: RenderContext, source: string): unknown[] {
+  const items = getVariable(context.variables, source);
+  return Array.isArray(items) ? items : [];
+}
+
+async function loadElementImage(
+  context: RenderContext,
+  src: string,
+): Promise<Image> {
+  if (/^https?:\/\//i.test(src)) return loadRemoteImage(context, src);
+
+  const imagePath = path.resolve(context.baseDir, src);
+  const cached = context.images.get(imagePath);
+  if (cached) return cached.image;
+
+  const image = await loadImage(imagePath);
+  context.images.set(imagePath, { image, expiresAt: Infinity });
+  return image;
+}
+
+/**
+ * Downloads a remote image, at most every `REMOTE_IMAGE_TTL`.
+ * When the download fails, the expired image is used if there is one.
+ */
+async function loadRemoteImage(
+  context: RenderContext,
+  url: string,
+): Promise<Image> {
+  const cached = context.images.get(url);
+  if (cached && cached.expiresAt > Date.now()) return cached.image;
+
+  try {
+    // A stalled host must not block the refresh of the other plugins of the device
+    const response = await fetch(url, {
+      signal: AbortSignal.timeout(REMOTE_IMAGE_TIMEOUT),
+    });
+    if (!response.ok) {
+      throw new Error(`${response.status} ${response.statusText}`);
+    }
+
+    const image = await loadImage(Buffer.from(await response.arrayBuffer()));
+    context.images.set(url, {
+      image,
+      expiresAt: Date.now() + REMOTE_IMAGE_TTL,
+    });
+    return image;
+  } catch (error) {
+    if (!cached) throw error;
+
+    context.log(
+      `Failed to load image ${url}, using the last one: ${error}`,
+      "warn",
+    );
+    return cached.image;
+  }
+}
+
+async function drawImageElement(
+  context: RenderContext,
+  element: ElementOf<"image">,
+  box: Box,
+) {
+  const { ctx } = context;
+  const src = interpolate(element.src, context.variables);
+
+  let image: Image;
+  try {
+    image = await loadElementImage(context, src);
+  } catch (error) {
+    context.log(`Failed to load image ${src}: ${error}`, "warn");
+    drawIcon(ctx, "warning", box, "#000000", Math.min(48, box.width));
+    return;
+  }
+
+  let { width, height } = box;
+  if (element.fit !== "fill") {
+    const ratios = [box.width / image.width, box.height / image.height];
+    const scale =
+      element.fit === "cover" ? Math.max(...ratios) : Math.min(...ratios);
+    width = image.width * scale;
+    height = image.height * scale;
+  }
+
+  ctx.save();
+  ctx.beginPath();
+  ctx.rect(box.x, box.y, box.width, box.height);
+  ctx.clip();
+  ctx.drawImage(
+    image,
+    box.x + (box.width - width) / 2,
+    box.y + (box.height - height) / 2,
+    width,
+    height,
+  );
+  ctx.restore();
+}
+
+function drawTitleBar(
+  context: RenderContext,
+  element: ElementOf<"titleBar">,
+  box: Box,
+) {
+  const color = element.inverted ? "#ffffff" : "#000000";
+  if (element.inverted) {
+    drawPanel(context.ctx, box, { fill: "#000000" });
+  } else {
+    drawDivider(context.ctx, { ...box, y: box.y + box.height - 2, height: 2 });
+  }
+
+  const font = { size: element.size, weight: "bold" as const };
+  const textBox = inset(box, { left: rem(0.5), right: rem(0.5) });
+  let titleBox = textBox;
+
+  if (element.subtitle) {
+    const subtitle = drawText(
+      context.ctx,
+      interpolate(element.subtitle, context.variables),
+      textBox,
+      {
+        font: { ...font, weight: "normal", family: context.fontFamily },
+        color,
+        align: "right",
+        verticalAlign: "middle",
+        overflow: "truncate",
+      },
+    );
+    const subtitleWidth = context.ctx.measureText(subtitle.lines[0]).width;
+    titleBox = { ...textBox, width: textBox.width - subtitleWidth - rem(0.5) };
+  }
+
+  drawText(
+    context.ctx,
+    interpolate(element.title, context.variables),
+    titleBox,
+    {
+      font: { ...font, family: context.fontFamily },
+      color,
+      verticalAlign: "middle",
+      overflow: "truncate",
+    },
+  );
+}
+
+function drawList(
+  context: RenderContext,
+  element: ElementOf<"list">,
+  box: Box,
+) {
+  const { ctx, variables } = context;
+  const texts = element.source
+    ? getSourceItems(context, element.source).map((item) =>
+        interpolate(element.template, { ...variables, item }),
+      )
+    : element.items!.map((item) => interpolate(item, variables));
+
+  const lineHeight = element.size * 1.5;
+  const count = Math.min(
+    texts.length,
+    element.maxItems ?? Infinity,
+    Math.floor(box.height / lineHeight),
+  );
+  const font = {
+    size: element.size,
+    weight: element.weight,
+    family: context.fontFamily,
+  };
+  const bulletWidth = element.bullet ? element.size : 0;
+
+  for (let i = 0; i < count; i++) {
+    const line = { ...box, y: box.y + i * lineHeight, height: lineHeight };
+    const text = {
+      ...line,
+      x: line.x + bulletWidth,
+      width: line.width - bulletWidth,
+    };
+
+    if (element.bullet) {
+      drawText(ctx, element.bullet, line, {
+        font,
+        color: element.color,
+        verticalAlign: "middle",
+        overflow: "truncate",
+      });
+    }
+    drawText(ctx, texts[i], text, {
+      font,
+      color: element.color,
+      verticalAlign: "middle",
+      overflow: "truncate",
+    });
+  }
+}
+
+function drawTable(
+  context: RenderContext,
+  element: ElementOf<"table">,
+  box: Box,
+) {
+  const { ctx, variables } = context;
+  const rowHeight = element.size * 1.6;
+  const widths = element.columns.map(
+    (column) => (column.width ?? "1fr") as Size,
+  );
+  const font = {
+    size: element.size,
+    weight: element.weight,
+    family: context.fontFamily,
+  };
+
+  const cells: string[][] = element.source
+    ? getSourceItems(context, element.source).map((item) =>
+        element.columns.map((column) =>
+          interpolate(column.value!, { ...variables, item }),
+        ),
+      )
+    : element.rows!.map((row) =>
+        row.map((cell) => interpolate(cell, variables)),
+      );
+
+  const drawRow = (texts: string[], y: number, weight: "normal" | "bold") => {
+    const rowBox = { ...box, y, height: rowHeight };
+    columns(rowBox, widths, rem(0.5)).forEach((cellBox, i) => {
+      drawText(ctx, texts[i] ?? "", cellBox, {
+        font: { ...font, weight },
+        color: element.color,
+        align: element.columns[i].align,
+        verticalAlign: "middle",
+        overflow: "truncate",
+      });
+    });
+  };
+
+  let y = box.y;
+  if (element.header) {
+    drawRow(
+      element.columns.map((column) => interpolate(column.header, variables)),
+      y,
+      "bold",
+    );
+    y += rowHeight;
+    drawDivider(ctx, { ...box, y: y - 1, height: 2 }, { lineWidth: 2 });
+  }
+
+  const count = Math.min(
+    cells.length,
+    element.maxRows ?? Infinity,
+    Math.floor((box.y + box.height - y) / rowHeight),
+  );
+  for (let i = 0; i < count; i++) {
+    if (i > 0) {
+      drawDivider(ctx, { ...box, y: y - 0.5, height: 1 }, { color: "#999999" });
+    }
+    drawRow(cells[i], y, element.weight);
+    y += rowHeight;
+  }
+}
+
+/**
+ * Draws an element, and its children, in a box
+ */
+export async function drawElement(
+  context: RenderContext,
+  element: ScreenElement,
+  box: Box,
+): Promise<void> {
+  const { ctx, variables } = context;
+
+  switch (element.type) {
+    case "rows":
+    case "columns": {
+      const sizes =
+        (element.sizes as Size[] | undefined) ??
+        element.children.map(() => "1fr" as const);
+      const split = element.type === "rows" ? rows : columns;
+      const boxes = split(box, sizes, element.gap);
+      for (let i = 0; i < element.children.length; i++) {
+        await drawElement(context, element.children[i], boxes[i]);
+      }
+      break;
+    }
+
+    case "grid": {
+      const rowCount = Math.ceil(element.children.length / element.columns);
+      const boxes = grid(box, element.columns, rowCount, element.gap);
+      for (let i = 0; i < element.children.length; i++) {
+        await drawElement(context, element.children[i], boxes[i]);
+      }
+      break;
+    }
+
+    case "panel":
+      drawPanel(ctx, box, {
+        radius: element.radius,
+        fill: element.fill,
+        stroke: element.border ? "#000000" : undefined,
+        lineWidth: 2,
+      });
+      await drawElement(context, element.child, inset(box, element.padding));
+      break;
+
+    case "text":
+      drawText(ctx, interpolate(element.text, variables), box, {
+        font: {
+          size: element.size,
+          weight: element.weight,
+          family: context.fontFamily,
+        },
+        color: element.color,
+        align: element.align,
+        verticalAlign: element.verticalAlign,
+        overflow: element.overflow,
+        maxLines: element.maxLines,
+      });
+      break;
+
+    case "titleBar":
+      drawTitleBar(context, element, box);
+      break;
+
+    case "divider":
+      drawDivider(ctx, box, {
+        lineWidth: element.lineWidth,
+        dash: element.dashed ? [6, 6] : undefined,
+      });
+      break;
+
+    case "list":
+      drawList(context, element, box);
+      break;
+
+    case "table":
+      drawTable(context, element, box);
+      break;
+
+    case "image":
+      await drawImageElement(context, element, box);
+      break;
+
+    case "icon":
+      drawIcon(ctx, element.name, box, element.color, element.size);
+      break;
+  }
+}
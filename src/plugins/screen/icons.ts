@@ -0,0 +1,73 @@
+import { Canvas, Path2D } from "@napi-rs/canvas";
+import { Box } from "../layout";
+
+type Context2D = ReturnType<Canvas["getContext"]>;
+
+/**
+ * Outlines of the built-in icons, as SVG path data in a 24x24 view box.
+ * They are only stroked, so they stay readable once dithered.
+ */
+const ICON_PATHS = {
+  check: "M4 12 L10 18 L20 6",
+  cross: "M5 5 L19 19 M19 5 L5 19",
+  plus: "M12 4 V20 M4 12 H20",
+  minus: "M4 12 H20",
+  "arrow-up": "M12 20 V4 M5 11 L12 4 L19 11",
+  "arrow-down": "M12 4 V20 M5 13 L12 20 L19 13",
+  "arrow-left": "M20 12 H4 M11 5 L4 12 L11 19",
+  "arrow-right": "M4 12 H20 M13 5 L20 12 L13 19",
+  warning: "M12 3 L22 20 H2 Z M12 9 V14 M12 17 V17.5",
+  info: "M3 12 A9 9 0 1 0 21 12 A9 9 0 1 0 3 12 M12 11 V17 M12 7 V7.5",
+  sun:
+    "M8 12 A4 4 0 1 0 16 12 A4 4 0 1 0 8 12 " +
+    "M12 2 V4 M12 20 V22 M2 12 H4 M20 12 H22 " +
+    "M4.9 4.9 L6.3 6.3 M17.7 17.7 L19.1 19.1 M4.9 19.1 L6.3 17.7 M17.7 6.3 L19.1 4.9",
+  cloud:
+    "M7 19 H17 A4 4 0 0 0 17.5 11 A5.5 5.5 0 0 0 7 10 A4.5 4.5 0 0 0 7 19 Z",
+  rain:
+    "M7 15 H17 A3.5 3.5 0 0 0 17.5 8 A5 5 0 0 0 7.5 7 A4 4 0 0 0 7 15 Z " +
+    "M8 18 L7 21 M12 18 L11 21 M16 18 L15 21",
+  snow:
+    "M12 2 V22 M3.3 7 L20.7 17 M3.3 17 L20.7 7 " +
+    "M9 3.5 L12 5.5 L15 3.5 M9 20.5 L12 18.5 L15 20.5",
+  clock: "M3 12 A9 9 0 1 0 21 12 A9 9 0 1 0 3 12 M12 7 V12 L15.5 14",
+  calendar: "M4 6 H20 V20 H4 Z M4 10 H20 M8 3 V7 M16 3 V7",
+  home: "M3 11 L12 3 L21 11 M5 9.5 V21 H10 V15 H14 V21 H19 V9.5",
+  star: "M12 3 L14.6 9 L21 9.5 L16.1 13.7 L17.6 20 L12 16.6 L6.4 20 L7.9 13.7 L3 9.5 L9.4 9 Z",
+  heart: "M12 20 L4.5 12.5 A4.5 4.5 0 0 1 12 6.5 A4.5 4.5 0 0 1 19.5 12.5 Z",
+  battery: "M3 7 H18 V17 H3 Z M18 10 H21 V14 H18 M6 10 V14 M9 10 V14",
+  wifi:
+    "M2 9 A14 14 0 0 1 22 9 M5.5 12.5 A9 9 0 0 1 18.5 12.5 " +
+    "M9 16 A4 4 0 0 1 15 16 M12 19.5 V20",
+} as const;
+
+export type IconName = keyof typeof ICON_PATHS;
+
+export const ICON_NAMES = Object.keys(ICON_PATHS) as IconName[];
+
+/**
+ * Draws a built-in icon, as large as possible, in the middle of a box
+ * @param size - Size of the icon, in pixels. Defaults to the smallest side of the box
+ */
+export function drawIcon(
+  ctx: Context2D,
+  name: IconName,
+  box: Box,
+  color = "#000000",
+  size = Math.min(box.width, box.height),
+): void {
+  const scale = size / 24;
+
+  ctx.save();
+  ctx.translate(
+    box.x + (box.width - size) / 2,
+    box.y + (box.height - size) / 2,
+  );
+  ctx.scale(scale, scale);
+  ctx.strokeStyle = color;
+  ctx.lineWidth = 2;
+  ctx.lineCap = "round";
+  ctx.lineJoin = "round";
+  ctx.stroke(new Path2D(ICON_PATHS[name]));
+  ctx.restore();
+}
@@ -0,0 +1,82 @@
+import path from "path";
+import { BasePlugin } from "../basePlugin";
+import { Infer, ObjectSchema } from "../../configSchema";
+import { PLUGINS_DIR } from "../../pluginLoader";
+import { inset } from "../layout";
+import {
+  CachedImage,
+  drawElement,
+  parseElement,
+  ScreenElement,
+} from "./elements";
+
+export const SCREEN_CONFIG_SCHEMA = {
+  type: "object",
+  properties: {
+    layout: {
+      type: "object",
+      properties: {},
+      additionalProperties: true,
+      required: true,
+      validate: (layout) => parseElement(layout, "$.config.layout").issues,
+    },
+    variables: {
+      type: "object",
+      properties: {},
+      additionalProperties: true,
+      default: {},
+    },
+    fontFamily: { type: "string", default: "Arial" },
+    padding: { type: "number", min: 0, default: 10 },
+  },
+} as const satisfies ObjectSchema;
+
+type ScreenConfig = Infer<typeof SCREEN_CONFIG_SCHEMA>;
+
+/**
+ * Draws a screen described in its config.json, with text, title bars, tables, lists, images and icons
+ */
+export class ScreenPlugin<
+  TConfig extends ScreenConfig = ScreenConfig,
+> extends BasePlugin<TConfig> {
+  static configSchema: ObjectSchema = SCREEN_CONFIG_SCHEMA;
+
+  private layout: ScreenElement | null = null;
+
+  /**
+   * Images of the layout: local ones are loaded once, remote ones are downloaded again after a while
+   */
+  private images = new Map<string, CachedImage>();
+
+  async onStart(): Promise<void> {
+    this.layout = parseElement(this.config.layout, "$.config.layout").element;
+  }
+
+  /**
+   * Get the values of the `{{ variable }}` placeholders of the layout:
+   * the `variables` of the config, overridden by the pushed variables.
+   * Override this method to draw the layout with other data.
+   */
+  protected async getVariables(): Promise<Record<string, unknown>> {
+    return { ...this.config.variables, ...this.pushedVariables };
+  }
+
+  protected async draw(): Promise<void> {
+    if (!this.layout) throw new Error("Screen plugin not started");
+
+    await drawElement(
+      {
+        ctx: this.ctx,
+        variables: await this.getVariables(),
+        fontFamily: this.config.fontFamily,
+        baseDir: path.join(PLUGINS_DIR, this.pluginName),
+        images: this.images,
+        log: (message, level) => this.log(message, level),
+      },
+      this.layout,
+      inset(this.bounds, this.config.padding),
+    );
+  }
+}
+
+export default ScreenPlugin;
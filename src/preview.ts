@@ -0,0 +1,336 @@
+import fs from "fs";
+import http from "http";
+import path from "path";
+import { parseArgs } from "util";
+import {
+  createOfflineTargetFromArgs,
+  OFFLINE_DEVICE_ARGS,
+  OFFLINE_DEVICE_USAGE,
+} from "./offline";
+import {
+  instantiatePlugin,
+  listPluginNames,
+  loadPluginDefinition,
+  PLUGINS_DIR,
+  unloadPluginModules,
+} from "./pluginLoader";
+import { BasePlugin } from "./plugins/basePlugin";
+import { Device, Model } from "./terminus";
+
+const USAGE = `Usage: preview [options]
+
+Starts a web server rendering the plugins in the browser, without any Terminus server.
+
+Options:
+${OFFLINE_DEVICE_USAGE}
+  --port <port>       Port to listen on (defaults to 3000)
+  --max-age <s>       Age after which a render is considered outdated (defaults to 60)
+  --help              Shows this message
+`;
+
+interface PreviewEntry {
+  name: string;
+  plugin: BasePlugin | null;
+  image: Buffer | null;
+  error: string | null;
+  renderedAt: number | null;
+  /**
+   * Set when the plugin must be re-rendered on the next request,
+   * e.g. when its code changed or a re-render was requested
+   */
+  dirty: boolean;
+  rendering: Promise<void> | null;
+}
+
+function escapeHtml(text: string) {
+  return text
+    .replace(/&/g, "&amp;")
+    .replace(/</g, "&lt;")
+    .replace(/>/g, "&gt;")
+    .replace(/"/g, "&quot;");
+}
+
+function page(title: string, body: string) {
+  return `<!doctype html>
+<html>
+<head>
+  <meta charset="utf-8">
+  <title>${escapeHtml(title)}</title>
+  <style>
+    body { font-family: sans-serif; background: #eee; margin: 2rem; }
+    a { color: #222; }
+    .bezel { display: inline-block; padding: 28px 28px 48px; background: #2b2b2b; border-radius: 18px; box-shadow: 0 8px 24px rgba(0, 0, 0, 0.3); }
+    .bezel img { display: block; background: #fff; image-rendering: pixelated; }
+    .error { color: #b00020; white-space: pre-wrap; }
+    .plugins { display: flex; flex-wrap: wrap; gap: 2rem; }
+    .plugins img { display: block; max-width: 320px; border: 1px solid #999; background: #fff; }
+  </style>
+</head>
+<body>
+${body}
+</body>
+</html>`;
+}
+
+/**
+ * Web server previewing the plugins, re-rendering them when their code changes
+ */
+export class PreviewServer {
+  private entries = new Map<string, PreviewEntry>();
+
+  constructor(
+    private readonly device: Device,
+    private readonly model: Model,
+    private readonly options: { port: number; maxAge: number },
+  ) {
+    for (const name of listPluginNames()) {
+      this.entries.set(name, {
+        name,
+        plugin: null,
+        image: null,
+        error: null,
+        renderedAt: null,
+        dirty: true,
+        rendering: null,
+      });
+    }
+  }
+
+  start() {
+    this.watchPlugins();
+
+    const server = http.createServer((req, res) => {
+      this.handleRequest(req, res).catch((error) => {
+        console.error("Failed to handle request:", error);
+        res.writeHead(500, { "Content-Type": "text/plain" });
+        res.end(String(error));
+      });
+    });
+
+    server.listen(this.options.port, () => {
+      console.log(
+        `Preview server listening on http://localhost:${this.options.port} (${this.device.width}x${this.device.height})`,
+      );
+    });
+  }
+
+  /**
+   * Reloads the code of a plugin whenever a file of its directory changes
+   */
+  private watchPlugins() {
+    fs.watch(PLUGINS_DIR, { recursive: true }, (_event, filename) => {
+      if (!filename) return;
+
+      const name = filename.toString().split(path.sep)[0];
+      const entry = this.entries.get(name);
+      if (!entry) return;
+
+      // The plugins rendering this plugin, e.g. mashups, are reloaded too
+      const dependents = [...this.entries.values()].filter((other) =>
+        other.plugin?.dependencies.includes(name),
+      );
+
+      unloadPluginModules(name);
+      for (const reloaded of [entry, ...dependents]) this.unloadEntry(reloaded);
+      console.log(`[${name}] Files changed, the plugin will be reloaded`);
+    });
+  }
+
+  /**
+   * Stops the plugin of an entry, so it is instantiated again at the next render
+   */
+  private unloadEntry(entry: PreviewEntry) {
+    entry.plugin?.onStop().catch((error) => {
+      console.error(`[${entry.name}] Failed to stop plugin:`, error);
+    });
+    entry.plugin = null;
+    entry.dirty = true;
+  }
+
+  private async handleRequest(
+    req: http.IncomingMessage,
+    res: http.ServerResponse,
+  ) {
+    const url = new URL(req.url ?? "/", "http://localhost");
+
+    if (req.method === "GET" && url.pathname === "/") {
+      return this.sendHtml(res, this.renderIndexPage());
+    }
+
+    const match = /^\/plugins\/([^/]+)(\/image\.png|\/render)?$/.exec(
+      url.pathname,
+    );
+    const entry = match && this.entries.get(decodeURIComponent(match[1]));
+
+    if (!match || !entry) {
+      res.writeHead(404, { "Content-Type": "text/plain" });
+      res.end("Not found");
+      return;
+    }
+
+    if (req.method === "GET" && !match[2]) {
+      return this.sendHtml(res, this.renderPluginPage(entry));
+    }
+
+    if (req.method === "GET" && match[2] === "/image.png") {
+      await this.renderIfNeeded(entry);
+
+      if (!entry.image) {
+        res.writeHead(500, { "Content-Type": "text/plain" });
+        res.end(entry.error ?? "Plugin not rendered");
+        return;
+      }
+
+      res.writeHead(200, {
+        "Content-Type": "image/png",
+        "Cache-Control": "no-store",
+      });
+      res.end(entry.image);
+      return;
+    }
+
+    if (req.method === "POST" && match[2] === "/render") {
+      entry.dirty = true;
+      await this.renderIfNeeded(entry);
+      res.writeHead(303, {
+        Location: `/plugins/${encodeURIComponent(entry.name)}`,
+      });
+      res.end();
+      return;
+    }
+
+    res.writeHead(405, { "Content-Type": "text/plain" });
+    res.end("Method not allowed");
+  }
+
+  private sendHtml(res: http.ServerResponse, html: string) {
+    res.writeHead(200, { "Content-Type": "text/html; charset=utf-8" });
+    res.end(html);
+  }
+
+  private isOutdated(entry: PreviewEntry) {
+    return (
+      entry.dirty ||
+      entry.renderedAt === null ||
+      Date.now() - entry.renderedAt > this.options.maxAge * 1000
+    );
+  }
+
+  private async renderIfNeeded(entry: PreviewEntry) {
+    // Concurrent requests share the same render
+    if (entry.rendering) return entry.rendering;
+    if (!this.isOutdated(entry)) return;
+
+    entry.rendering = this.render(entry).finally(() => {
+      entry.rendering = null;
+    });
+
+    return entry.rendering;
+  }
+
+  private async render(entry: PreviewEntry) {
+    entry.dirty = false;
+
+    try {
+      if (!entry.plugin) {
+        const definition = loadPluginDefinition(entry.name, {
+          includeDisabled: true,
+        })!;
+
+        const plugin = instantiatePlugin(definition, this.device, this.model);
+        await plugin.onStart();
+        entry.plugin = plugin;
+      }
+
+      const b64 = await entry.plugin.renderToBase64();
+      entry.image = Buffer.from(b64, "base64");
+      entry.error = null;
+    } catch (error) {
+      entry.image = null;
+      entry.error = (error as Error).stack ?? String(error);
+      console.error(`[${entry.name}] Failed to render:`, error);
+    }
+
+    entry.renderedAt = Date.now();
+  }
+
+  private renderIndexPage() {
+    const plugins = [...this.entries.values()]
+      .map((entry) => {
+        const url = `/plugins/${encodeURIComponent(entry.name)}`;
+        return `<a href="${url}"><h2>${escapeHtml(entry.name)}</h2><img src="${url}/image.png" alt="${escapeHtml(entry.name)}"></a>`;
+      })
+      .join("\n");
+
+    return page(
+      "Plugins preview",
+      `<h1>Plugins preview</h1>\n<div class="plugins">\n${plugins}\n</div>`,
+    );
+  }
+
+  private renderPluginPage(entry: PreviewEntry) {
+    const url = `/plugins/${encodeURIComponent(entry.name)}`;
+    // The image is in the physical orientation of the panel
+    const { width, height } = this.model;
+
+    return page(
+      `${entry.name} preview`,
+      `<p><a href="/">&larr; All plugins</a></p>
+<h1>${escapeHtml(entry.name)} <small>${width}x${height}</small></h1>
+<form method="post" action="${url}/render"><button type="submit">Re-render</button></form>
+<p class="error" id="error">${entry.error ? escapeHtml(entry.error) : ""}</p>
+<div class="bezel"><img id="screen" src="${url}/image.png" width="${width}" height="${height}" alt="${escapeHtml(entry.name)}"></div>
+<script>
+  // Reloading the image regularly, the server re-renders it when outdated or when the code changed
+  const screen = document.getElementById("screen");
+  const error = document.getElementById("error");
+  setInterval(async () => {
+    const res = await fetch("${url}/image.png", { cache: "no-store" });
+    if (!res.ok) {
+      error.textContent = await res.text();
+      return;
+    }
+    error.textContent = "";
+    const previous = screen.src;
+    screen.src = URL.createObjectURL(await res.blob());
+    if (previous.startsWith("blob:")) URL.revokeObjectURL(previous);
+  }, 3000);
+</script>`,
+    );
+  }
+}
+
+function main() {
+  const { values } = parseArgs({
+    options: {
+      ...OFFLINE_DEVICE_ARGS,
+      port: { type: "string" },
+      "max-age": { type: "string" },
+      help: { type: "boolean" },
+    },
+  });
+
+  if (values.help) {
+    console.log(USAGE);
+    process.exit(0);
+  }
+
+  const port = +(values.port ?? 3000);
+  const maxAge = +(values["max-age"] ?? 60);
+  if (!Number.isInteger(port) || port <= 0) {
+    throw new Error(`Invalid port: ${values.port}`);
+  }
+  if (!Number.isFinite(maxAge) || maxAge < 0) {
+    throw new Error(`Invalid max age: ${values["max-age"]}`);
+  }
+
+  const { device, model } = createOfflineTargetFromArgs(values);
+  new PreviewServer(device, model, { port, maxAge }).start();
+}
+
+try {
+  main();
+} catch (error) {
+  console.error((error as Error).message ?? error);
+  process.exit(1);
+}
@@ -0,0 +1,199 @@
+import crypto from "crypto";
+import http from "http";
+import { PushSettings } from "./pluginLoader";
+
+/**
+ * Outcome of a push, per device
+ */
+export interface PushResult {
+  /** Friendly IDs of the devices whose screen was refreshed */
+  refreshed: string[];
+  /** Devices whose screen failed to refresh, the variables are still stored */
+  failed: { device: string; error: string }[];
+}
+
+/**
+ * Plugins receiving the pushed variables
+ */
+export interface PushTarget {
+  /**
+   * Get the push settings of a plugin
+   * @returns undefined if the plugin is not running or has no `push` settings
+   */
+  getPushSettings(pluginName: string): PushSettings | undefined;
+
+  /**
+   * Stores the variables in the plugin, and renders and uploads it right away if `refresh` is set
+   */
+  pushVariables(
+    pluginName: string,
+    variables: Record<string, unknown>,
+    refresh: boolean,
+  ): Promise<PushResult>;
+}
+
+/**
+ * Compares a token to the expected one in constant time, so it can't be guessed from the response time
+ */
+function tokenMatches(token: string, expected: string) {
+  const hash = (value: string) =>
+    crypto.createHash("sha256").update(value).digest();
+  return crypto.timingSafeEqual(hash(token), hash(expected));
+}
+
+/**
+ * Reads the body of a request, up to a size
+ * @returns The body, or null if it is larger than `maxSize` bytes
+ */
+function readBody(
+  req: http.IncomingMessage,
+  maxSize: number,
+): Promise<Buffer | null> {
+  return new Promise((resolve, reject) => {
+    if (Number(req.headers["content-length"]) > maxSize) return resolve(null);
+
+    const chunks: Buffer[] = [];
+    let size = 0;
+
+    req.on("data", (chunk: Buffer) => {
+      size += chunk.length;
+      if (size > maxSize) {
+        // The rest of the body is not read, the connection is closed after the response
+        req.removeAllListeners("data");
+        resolve(null);
+        return;
+      }
+      chunks.push(chunk);
+    });
+    req.on("end", () => resolve(Buffer.concat(chunks)));
+    req.on("error", reject);
+  });
+}
+
+function sendJson(
+  res: http.ServerResponse,
+  status: number,
+  body: object,
+  headers: http.OutgoingHttpHeaders = {},
+) {
+  res.writeHead(status, { "Content-Type": "application/json", ...headers });
+  res.end(JSON.stringify(body));
+}
+
+/**
+ * Web server receiving data pushed by external systems (CI, home automation, cron jobs...).
+ * `POST /plugins/<name>/variables` with a `{ "merge_variables": {...} }` body
+ * and an `Authorization: Bearer <token>` header stores the variables in the plugin.
+ */
+export class PushServer {
+  private server: http.Server | null = null;
+
+  constructor(
+    private readonly target: PushTarget,
+    private readonly port: number,
+  ) {}
+
+  start() {
+    this.server = http.createServer((req, res) => {
+      this.handleRequest(req, res).catch((error) => {
+        console.error("Failed to handle push request:", error);
+        if (!res.headersSent) sendJson(res, 500, { error: String(error) });
+      });
+    });
+
+    this.server.listen(this.port, () => {
+      console.log(`Push server listening on port ${this.port}`);
+    });
+  }
+
+  /**
+   * Stops accepting requests, and waits for the requests in progress
+   */
+  stop(): Promise<void> {
+    return new Promise((resolve) => {
+      if (!this.server) return resolve();
+      this.server.close(() => resolve());
+      this.server.closeIdleConnections();
+    });
+  }
+
+  private async handleRequest(
+    req: http.IncomingMessage,
+    res: http.ServerResponse,
+  ) {
+    const url = new URL(req.url ?? "/", "http://localhost");
+    const match = /^\/plugins\/([^/]+)\/variables$/.exec(url.pathname);
+    const pluginName = match && decodeURIComponent(match[1]);
+    const settings = pluginName && this.target.getPushSettings(pluginName);
+
+    if (!pluginName || !settings) {
+      return sendJson(res, 404, { error: "Not found" });
+    }
+
+    if (req.method !== "POST") {
+      return sendJson(
+        res,
+        405,
+        { error: "Method not allowed" },
+        { Allow: "POST" },
+      );
+    }
+
+    const token = /^Bearer (.+)$/i.exec(req.headers.authorization ?? "")?.[1];
+    if (!token || !tokenMatches(token, settings.token)) {
+      console.warn(`[${pluginName}] Push rejected: invalid token`);
+      return sendJson(
+        res,
+        401,
+        { error: "Invalid token" },
+        { "WWW-Authenticate": "Bearer" },
+      );
+    }
+
+    const body = await readBody(req, settings.maxPayloadSize);
+    if (!body) {
+      return sendJson(
+        res,
+        413,
+        { error: `Payload larger than ${settings.maxPayloadSize} bytes` },
+        { Connection: "close" },
+      );
+    }
+
+    let payload: unknown;
+    try {
+      payload = JSON.parse(body.toString("utf8"));
+    } catch (error) {
+      return sendJson(res, 400, { error: "Body is not valid JSON" });
+    }
+
+    const variables = (payload as { merge_variables?: unknown } | null)
+      ?.merge_variables;
+
+    if (
+      typeof variables !== "object" ||
+      variables === null ||
+      Array.isArray(variables)
+    ) {
+      return sendJson(res, 400, {
+        error: "Body must be an object with a merge_variables object",
+      });
+    }
+
+    // The query parameter overrides the settings, e.g. to group several pushes in one upload
+    const refreshParam = url.searchParams.get("refresh");
+    const refresh =
+      refreshParam === null ? settings.refresh : refreshParam !== "false";
+
+    console.log(
+      `[${pluginName}] Received ${Object.keys(variables).length} variable(s)${refresh ? ", refreshing" : ""}`,
+    );
+    const result = await this.target.pushVariables(
+      pluginName,
+      variables as Record<string, unknown>,
+      refresh,
+    );
+
+    sendJson(res, result.failed.length ? 502 : 200, result);
+  }
+}
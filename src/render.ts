@@ -0,0 +1,62 @@
+import fs from "fs";
+import path from "path";
+import { parseArgs } from "util";
+import {
+  createOfflineTargetFromArgs,
+  OFFLINE_DEVICE_ARGS,
+  OFFLINE_DEVICE_USAGE,
+} from "./offline";
+import { instantiatePlugin, loadPluginDefinition } from "./pluginLoader";
+
+const USAGE = `Usage: render <plugin> [options]
+
+Renders a plugin to a PNG file, without any Terminus server.
+
+Options:
+${OFFLINE_DEVICE_USAGE}
+  --out <path>        Output file (defaults to ./<plugin>.png)
+  --help              Shows this message
+`;
+
+async function main() {
+  const { values, positionals } = parseArgs({
+    allowPositionals: true,
+    options: {
+      ...OFFLINE_DEVICE_ARGS,
+      out: { type: "string" },
+      help: { type: "boolean" },
+    },
+  });
+
+  if (values.help || positionals.length !== 1) {
+    console.log(USAGE);
+    process.exit(values.help ? 0 : 1);
+  }
+
+  const pluginName = positionals[0];
+  const { device, model } = createOfflineTargetFromArgs(values);
+
+  const definition = loadPluginDefinition(pluginName, {
+    includeDisabled: true,
+  })!;
+
+  const plugin = instantiatePlugin(definition, device, model);
+
+  await plugin.onStart();
+  const b64 = await plugin.renderToBase64();
+  await plugin.onStop();
+
+  const outPath = path.resolve(values.out ?? `${pluginName}.png`);
+  fs.writeFileSync(outPath, Buffer.from(b64, "base64"));
+
+  console.log(
+    `Rendered ${pluginName} (${device.width}x${device.height}) to ${outPath}`,
+  );
+}
+
+main()
+  .then(() => process.exit())
+  .catch((error) => {
+    console.error((error as Error).message ?? error);
+    process.exit(1);
+  });
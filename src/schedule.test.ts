@@ -0,0 +1,177 @@
+import { describe, expect, test } from "bun:test";
+import { Schedule } from "./schedule";
+
+const at = (iso: string) => Date.parse(iso);
+
+describe("every", () => {
+  const schedule = new Schedule({ every: "1h" });
+
+  test("is due once the interval elapsed", () => {
+    expect(
+      schedule.isDue(at("2025-10-19T11:00:00Z"), at("2025-10-19T10:00:00Z")),
+    ).toBe(true);
+  });
+
+  test("tolerates refreshes happening slightly early", () => {
+    expect(
+      schedule.isDue(at("2025-10-19T10:59:30Z"), at("2025-10-19T10:00:00Z")),
+    ).toBe(true);
+  });
+
+  test("is not due before the interval elapsed", () => {
+    expect(
+      schedule.isDue(at("2025-10-19T10:30:00Z"), at("2025-10-19T10:00:00Z")),
+    ).toBe(false);
+  });
+});
+
+describe("cron", () => {
+  test("is always due before the first refresh", () => {
+    const schedule = new Schedule({ cron: "0 0 1 * *", timezone: "UTC" });
+    expect(schedule.isDue(at("2025-10-19T10:00:00Z"), null)).toBe(true);
+  });
+
+  test("is due when the expression fired since the last refresh", () => {
+    const schedule = new Schedule({ cron: "0 * * * *", timezone: "UTC" });
+    expect(
+      schedule.isDue(at("2025-10-19T11:00:00Z"), at("2025-10-19T10:00:00Z")),
+    ).toBe(true);
+    expect(
+      schedule.isDue(at("2025-10-19T10:59:00Z"), at("2025-10-19T10:00:00Z")),
+    ).toBe(false);
+  });
+
+  test("evaluates monthly expressions over gaps longer than a week", () => {
+    const schedule = new Schedule({ cron: "0 0 1 * *", timezone: "UTC" });
+    expect(
+      schedule.isDue(at("2025-10-19T00:00:00Z"), at("2025-10-11T00:00:00Z")),
+    ).toBe(false);
+    expect(
+      schedule.isDue(at("2025-11-01T00:00:00Z"), at("2025-10-11T00:00:00Z")),
+    ).toBe(true);
+    expect(
+      schedule.isDue(at("2025-10-19T00:00:00Z"), at("2025-09-11T00:00:00Z")),
+    ).toBe(true);
+  });
+
+  test("finds expressions firing every few years", () => {
+    const schedule = new Schedule({ cron: "0 12 29 2 *", timezone: "UTC" });
+    expect(
+      schedule.isDue(at("2025-10-19T00:00:00Z"), at("2023-01-01T00:00:00Z")),
+    ).toBe(true);
+    expect(
+      schedule.isDue(at("2025-10-19T00:00:00Z"), at("2024-03-01T00:00:00Z")),
+    ).toBe(false);
+  });
+
+  test("matches either the day of month or the day of week when both are restricted", () => {
+    // The 13th, or any friday
+    const schedule = new Schedule({ cron: "0 9 13 * 5", timezone: "UTC" });
+    // Friday 2025-10-17
+    expect(
+      schedule.isDue(at("2025-10-17T09:00:00Z"), at("2025-10-16T00:00:00Z")),
+    ).toBe(true);
+    // Monday 2025-10-13
+    expect(
+      schedule.isDue(at("2025-10-13T09:00:00Z"), at("2025-10-12T00:00:00Z")),
+    ).toBe(true);
+    // Tuesday 2025-10-14
+    expect(
+      schedule.isDue(at("2025-10-14T09:00:00Z"), at("2025-10-13T10:00:00Z")),
+    ).toBe(false);
+  });
+
+  test("evaluates the expression in the timezone", () => {
+    const schedule = new Schedule({
+      cron: "0 7 * * *",
+      timezone: "Europe/Paris",
+    });
+    // 07:00 in Paris is 05:00 UTC in summer time
+    expect(
+      schedule.isDue(at("2025-07-01T05:00:00Z"), at("2025-07-01T04:00:00Z")),
+    ).toBe(true);
+    expect(
+      schedule.isDue(at("2025-07-01T06:30:00Z"), at("2025-07-01T05:30:00Z")),
+    ).toBe(false);
+  });
+
+  test("handles daylight saving time gaps", () => {
+    // 02:00 doesn't exist in Paris on 2025-03-30
+    const schedule = new Schedule({
+      cron: "30 2 * * *",
+      timezone: "Europe/Paris",
+    });
+    expect(
+      schedule.isDue(at("2025-03-30T10:00:00Z"), at("2025-03-29T10:00:00Z")),
+    ).toBe(false);
+    expect(
+      schedule.isDue(at("2025-03-31T10:00:00Z"), at("2025-03-29T10:00:00Z")),
+    ).toBe(true);
+  });
+
+  test("is never due for an expression that never fires", () => {
+    const schedule = new Schedule({ cron: "0 0 31 2 *", timezone: "UTC" });
+    expect(
+      schedule.isDue(at("2025-10-19T00:00:00Z"), at("2025-01-01T00:00:00Z")),
+    ).toBe(false);
+  });
+
+  test("rejects invalid expressions", () => {
+    expect(() => new Schedule({ cron: "0 0 * *" })).toThrow();
+    expect(() => new Schedule({ cron: "60 * * * *" })).toThrow();
+  });
+});
+
+describe("windows", () => {
+  test("is only due inside the windows", () => {
+    const schedule = new Schedule({
+      windows: [{ from: "07:00", to: "21:00" }],
+      timezone: "UTC",
+    });
+    expect(schedule.isDue(at("2025-10-19T07:00:00Z"), null)).toBe(true);
+    expect(schedule.isDue(at("2025-10-19T20:59:00Z"), null)).toBe(true);
+    expect(schedule.isDue(at("2025-10-19T21:00:00Z"), null)).toBe(false);
+    expect(schedule.isDue(at("2025-10-19T06:59:00Z"), null)).toBe(false);
+  });
+
+  test("restricts the windows to their days", () => {
+    const schedule = new Schedule({
+      windows: [{ from: "07:00", to: "21:00", days: ["mon", "tue"] }],
+      timezone: "UTC",
+    });
+    // Monday
+    expect(schedule.isDue(at("2025-10-20T10:00:00Z"), null)).toBe(true);
+    // Sunday
+    expect(schedule.isDue(at("2025-10-19T10:00:00Z"), null)).toBe(false);
+  });
+
+  test("attributes the part of overnight windows after midnight to the previous day", () => {
+    const schedule = new Schedule({
+      windows: [{ from: "22:00", to: "06:00", days: ["fri"] }],
+      timezone: "UTC",
+    });
+    // Friday 23:00 and saturday 02:00
+    expect(schedule.isDue(at("2025-10-17T23:00:00Z"), null)).toBe(true);
+    expect(schedule.isDue(at("2025-10-18T02:00:00Z"), null)).toBe(true);
+    // Friday 02:00 belongs to thursday's window
+    expect(schedule.isDue(at("2025-10-17T02:00:00Z"), null)).toBe(false);
+  });
+
+  test("accepts 24:00 as the end of a window", () => {
+    const schedule = new Schedule({
+      windows: [{ from: "20:00", to: "24:00" }],
+      timezone: "UTC",
+    });
+    expect(schedule.isDue(at("2025-10-19T23:59:00Z"), null)).toBe(true);
+    expect(schedule.isDue(at("2025-10-20T00:00:00Z"), null)).toBe(false);
+  });
+
+  test("rejects other times past 23:59", () => {
+    expect(
+      () => new Schedule({ windows: [{ from: "20:00", to: "24:59" }] }),
+    ).toThrow("Invalid time of day: 24:59");
+    expect(
+      () => new Schedule({ windows: [{ from: "24:00", to: "23:00" }] }),
+    ).toThrow("Invalid time of day: 24:00");
+  });
+});
@@ -0,0 +1,305 @@
+import { DateTime } from "luxon";
+
+export interface ScheduleWindow {
+  /** Start of the window, e.g. "07:00" */
+  from: string;
+  /** End of the window, e.g. "22:30" or "24:00". Can be before `from` for overnight windows */
+  to: string;
+  /** Days of the week the window applies to (e.g. ["mon", "tue"]). Defaults to every day */
+  days?: string[];
+}
+
+export interface ScheduleConfig {
+  /** Minimum time between two refreshes, e.g. "15m", "2h", "1d" */
+  every?: string;
+  /** Standard 5 fields cron expression, e.g. "0 7-19 * * 1-5" */
+  cron?: string;
+  /** Time-of-day windows outside of which the plugin is never refreshed */
+  windows?: ScheduleWindow[];
+  /** Timezone used to evaluate the cron expression and the windows */
+  timezone?: string;
+}
+
+const DAY_NAMES = ["mon", "tue", "wed", "thu", "fri", "sat", "sun"];
+
+/**
+ * Tolerance used when comparing refresh times, because device refreshes
+ * never happen exactly at the expected time.
+ */
+const TOLERANCE_MS = 60 * 1000;
+
+/**
+ * How far back the last fire time of a cron expression is searched. February 29th
+ * only comes back after 8 years across a century not divisible by 400.
+ */
+const MAX_CRON_LOOKBEHIND_YEARS = 8;
+
+/**
+ * Parses a duration like "30s", "15m", "2h" or "1d" into milliseconds
+ */
+export function parseDuration(duration: string): number {
+  const match = /^\s*(\d+(?:\.\d+)?)\s*(s|m|h|d)\s*$/i.exec(duration);
+  if (!match) {
+    throw new Error(`Invalid duration: ${duration}`);
+  }
+
+  const value = +match[1];
+  const unit = match[2].toLowerCase();
+  const multipliers: Record<string, number> = {
+    s: 1000,
+    m: 60 * 1000,
+    h: 60 * 60 * 1000,
+    d: 24 * 60 * 60 * 1000,
+  };
+
+  return value * multipliers[unit];
+}
+
+/**
+ * Parses a time of day like "7:00" or "22:30" into minutes since midnight
+ * @param endOfDay - Whether "24:00" is accepted, as the end of a window
+ */
+function parseTimeOfDay(time: string, endOfDay = false): number {
+  const match = /^\s*(\d{1,2})(?::|h)(\d{2})\s*$/.exec(time);
+  const minutes = match ? +match[1] * 60 + +match[2] : NaN;
+  const isEndOfDay = endOfDay && minutes === 24 * 60;
+
+  if (!match || (+match[1] > 23 && !isEndOfDay) || +match[2] > 59) {
+    throw new Error(`Invalid time of day: ${time}`);
+  }
+
+  return minutes;
+}
+
+/**
+ * Parses a single cron field into the set of values it matches
+ */
+function parseCronField(field: string, min: number, max: number): Set<number> {
+  const values = new Set<number>();
+
+  for (const part of field.split(",")) {
+    const match = /^(\*|\d+)(?:-(\d+))?(?:\/(\d+))?$/.exec(part);
+    if (!match) {
+      throw new Error(`Invalid cron field: ${field}`);
+    }
+
+    let start = match[1] === "*" ? min : +match[1];
+    let end = match[1] === "*" ? max : match[2] ? +match[2] : start;
+    const step = match[3] ? +match[3] : 1;
+
+    if (match[1] !== "*" && !match[2] && match[3]) {
+      // "5/15" means "from 5 to the max, every 15"
+      end = max;
+    }
+
+    if (start < min || end > max || start > end || step < 1) {
+      throw new Error(`Invalid cron field: ${field}`);
+    }
+
+    for (let value = start; value <= end; value += step) {
+      values.add(value);
+    }
+  }
+
+  return values;
+}
+
+/**
+ * Get the largest value of a set that is lower than or equal to a maximum
+ * @returns The value, or null if all the values are larger
+ */
+function latestAtOrBefore(values: Set<number>, max: number): number | null {
+  let latest: number | null = null;
+  for (const value of values) {
+    if (value <= max && (latest === null || value > latest)) latest = value;
+  }
+  return latest;
+}
+
+class CronExpression {
+  private minutes: Set<number>;
+  private hours: Set<number>;
+  private daysOfMonth: Set<number>;
+  private months: Set<number>;
+  private daysOfWeek: Set<number>;
+
+  private restrictsDayOfMonth: boolean;
+  private restrictsDayOfWeek: boolean;
+
+  constructor(expression: string) {
+    const fields = expression.trim().split(/\s+/);
+    if (fields.length !== 5) {
+      throw new Error(`Invalid cron expression: ${expression}`);
+    }
+
+    this.minutes = parseCronField(fields[0], 0, 59);
+    this.hours = parseCronField(fields[1], 0, 23);
+    this.daysOfMonth = parseCronField(fields[2], 1, 31);
+    this.months = parseCronField(fields[3], 1, 12);
+    this.daysOfWeek = parseCronField(fields[4], 0, 7);
+
+    // Both 0 and 7 mean sunday
+    if (this.daysOfWeek.has(0)) this.daysOfWeek.add(7);
+    if (this.daysOfWeek.has(7)) this.daysOfWeek.add(0);
+
+    this.restrictsDayOfMonth = fields[2] !== "*";
+    this.restrictsDayOfWeek = fields[4] !== "*";
+  }
+
+  /**
+   * Finds the last time the expression fired, at or before a date.
+   * The months, days and hours that don't match are skipped as a whole,
+   * rather than iterating over every minute.
+   * @returns The time, or null if the expression never fired in the last `MAX_CRON_LOOKBEHIND_YEARS` years
+   */
+  previous(date: DateTime): DateTime | null {
+    const limit = date.minus({ years: MAX_CRON_LOOKBEHIND_YEARS });
+    let candidate = date.startOf("minute");
+
+    while (candidate >= limit) {
+      if (!this.months.has(candidate.month)) {
+        // Last minute of the previous month
+        candidate = candidate.startOf("month").minus({ minutes: 1 });
+        continue;
+      }
+
+      if (!this.dayMatches(candidate)) {
+        candidate = candidate.startOf("day").minus({ minutes: 1 });
+        continue;
+      }
+
+      if (latestAtOrBefore(this.hours, candidate.hour) === null) {
+        candidate = candidate.startOf("day").minus({ minutes: 1 });
+        continue;
+      }
+      if (!this.hours.has(candidate.hour)) {
+        // Hour by hour, as setting the hour could land in a daylight saving time gap
+        candidate = candidate.startOf("hour").minus({ minutes: 1 });
+        continue;
+      }
+
+      const minute = latestAtOrBefore(this.minutes, candidate.minute);
+      if (minute === null) {
+        candidate = candidate.startOf("hour").minus({ minutes: 1 });
+        continue;
+      }
+
+      return candidate.set({ minute });
+    }
+
+    return null;
+  }
+
+  private dayMatches(date: DateTime): boolean {
+    const dayOfMonthMatches = this.daysOfMonth.has(date.day);
+    const dayOfWeekMatches = this.daysOfWeek.has(date.weekday);
+
+    // Like the standard cron, when both the day of month and the day of week are
+    // restricted, matching either of them is enough
+    if (this.restrictsDayOfMonth && this.restrictsDayOfWeek) {
+      return dayOfMonthMatches || dayOfWeekMatches;
+    }
+
+    return dayOfMonthMatches && dayOfWeekMatches;
+  }
+}
+
+/**
+ * Decides when a plugin should be re-rendered.
+ * Without any configuration, the plugin is due at every device refresh.
+ */
+export class Schedule {
+  private interval: number | null = null;
+  private cron: CronExpression | null = null;
+  private windows: {
+    from: number;
+    to: number;
+    days: number[] | null;
+  }[] = [];
+  private timezone: string | undefined;
+
+  constructor(config: ScheduleConfig = {}) {
+    if (typeof config !== "object" || config === null) {
+      throw new Error("Schedule must be an object");
+    }
+
+    if (config.every !== undefined) {
+      this.interval = parseDuration(config.every);
+    }
+
+    if (config.cron !== undefined) {
+      this.cron = new CronExpression(config.cron);
+    }
+
+    for (const window of config.windows ?? []) {
+      const days = window.days?.map((day) => {
+        const index = DAY_NAMES.indexOf(day.slice(0, 3).toLowerCase());
+        if (index === -1) throw new Error(`Invalid day: ${day}`);
+        return index + 1;
+      });
+
+      this.windows.push({
+        from: parseTimeOfDay(window.from),
+        to: parseTimeOfDay(window.to, true),
+        days: days ?? null,
+      });
+    }
+
+    this.timezone = config.timezone;
+    if (this.timezone && !DateTime.now().setZone(this.timezone).isValid) {
+      throw new Error(`Invalid timezone: ${this.timezone}`);
+    }
+  }
+
+  private inWindows(date: DateTime): boolean {
+    if (!this.windows.length) return true;
+
+    const minutes = date.hour * 60 + date.minute;
+
+    return this.windows.some((window) => {
+      if (window.from <= window.to) {
+        if (window.days && !window.days.includes(date.weekday)) return false;
+        return minutes >= window.from && minutes < window.to;
+      }
+
+      // Overnight window, the part after midnight belongs to the previous day
+      if (minutes >= window.from) {
+        return !window.days || window.days.includes(date.weekday);
+      }
+      if (minutes < window.to) {
+        const previousDay = date.minus({ days: 1 }).weekday;
+        return !window.days || window.days.includes(previousDay);
+      }
+      return false;
+    });
+  }
+
+  /**
+   * Checks if the plugin should be refreshed for the device refresh happening at `refreshAt`
+   * @param refreshAt - Time (ms) at which the device will display the new screen
+   * @param lastRefreshAt - Time (ms) of the last successful refresh of the plugin, or null if never refreshed
+   */
+  isDue(refreshAt: number, lastRefreshAt: number | null): boolean {
+    const at = DateTime.fromMillis(refreshAt, { zone: this.timezone });
+
+    if (!this.inWindows(at)) return false;
+    if (lastRefreshAt === null) return true;
+    if (!this.interval && !this.cron) return true;
+
+    if (
+      this.interval !== null &&
+      refreshAt - lastRefreshAt >= this.interval - TOLERANCE_MS
+    ) {
+      return true;
+    }
+
+    if (this.cron) {
+      // Due if the expression fired after the minute of the last refresh
+      const lastFire = this.cron.previous(at);
+      const last = DateTime.fromMillis(lastRefreshAt, { zone: this.timezone });
+      return lastFire !== null && lastFire > last.startOf("minute");
+    }
+
+    return false;
+  }
+}
@@ -1,5 +1,15 @@
 import axios, { AxiosInstance, AxiosResponse } from "axios";
-import { env } from "./env";
+import fs from "fs";
+import https from "https";
+import { env, optionalEnv } from "./env";
+import {
+  isTransientError,
+  TerminusError,
+  TerminusNotFoundError,
+  toTerminusError,
+} from "./terminusErrors";
+
+export * from "./terminusErrors";
 
 // TypeScript interfaces for API responses
 export interface Screen {
@@ -42,6 +52,26 @@ export interface Device {
   updated_at: string;
 }
 
+export interface Playlist {
+  id: number;
+  label: string;
+  name: string;
+  current_item_id: number | null;
+  created_at: string;
+  updated_at: string;
+}
+
+export interface PlaylistItem {
+  id: number;
+  playlist_id: number;
+  screen_id: number;
+  position: number;
+  /** Time the item stays on screen, in seconds (null to use the device refresh rate) */
+  duration: number | null;
+  created_at: string;
+  updated_at: string;
+}
+
 export interface Model {
   id: number;
   name: string;
@@ -62,45 +92,210 @@ export interface Model {
   updated_at: string;
 }
 
-// Configuration
-const TERMINUS_URL = env("TERMINUS_URL");
-const TERMINUS_PORT = env("TERMINUS_PORT");
+export interface TerminusTlsOptions {
+  /** Custom CA certificate(s), in PEM format */
+  ca?: string | Buffer;
+  /** Client certificate, in PEM format */
+  cert?: string | Buffer;
+  /** Client private key, in PEM format */
+  key?: string | Buffer;
+  /** Set to false to accept invalid or self-signed certificates */
+  rejectUnauthorized?: boolean;
+}
+
+export interface TerminusOptions {
+  /** Request timeout, in milliseconds */
+  timeout?: number;
+  /** Number of retries of idempotent requests failing with a transient error */
+  retries?: number;
+  /** Delay before the first retry, in milliseconds. Doubled at each retry */
+  retryDelay?: number;
+  /** Token sent as `Authorization: Bearer <token>` */
+  token?: string;
+  /** Credentials sent as basic authentication */
+  basicAuth?: { username: string; password: string };
+  /** TLS options of HTTPS connections */
+  tls?: TerminusTlsOptions;
+}
 
-const baseURL: string = `http://${TERMINUS_URL}:${TERMINUS_PORT}`;
+let apiClient: AxiosInstance | null = null;
+let clientOptions: Required<
+  Pick<TerminusOptions, "timeout" | "retries" | "retryDelay">
+>;
 
-let apiClient: AxiosInstance;
+function sleep(ms: number) {
+  return new Promise((resolve) => setTimeout(resolve, ms));
+}
+
+function numberEnv(key: string, defaultValue: number): number {
+  const value = optionalEnv(key);
+  if (value === undefined) return defaultValue;
+
+  if (!Number.isFinite(+value) || +value < 0) {
+    throw new Error(`Invalid environment variable ${key}: ${value}`);
+  }
+  return +value;
+}
+
+function fileEnv(key: string): Buffer | undefined {
+  const filePath = optionalEnv(key);
+  if (filePath === undefined) return undefined;
+
+  try {
+    return fs.readFileSync(filePath);
+  } catch (error) {
+    throw new Error(`Failed to read ${key} file ${filePath}: ${error}`);
+  }
+}
+
+/**
+ * Get the base URL of the Terminus server from the environment variables.
+ * `TERMINUS_BASE_URL` (e.g. `https://example.com/terminus`) takes precedence over `TERMINUS_URL` and `TERMINUS_PORT`.
+ */
+function baseUrlFromEnv(): string {
+  const baseUrl = optionalEnv("TERMINUS_BASE_URL");
+  if (baseUrl) return baseUrl;
+
+  return `http://${env("TERMINUS_URL")}:${env("TERMINUS_PORT")}`;
+}
+
+/**
+ * Get the client options from the environment variables
+ */
+function optionsFromEnv(): TerminusOptions {
+  const username = optionalEnv("TERMINUS_USERNAME");
+  const password = optionalEnv("TERMINUS_PASSWORD");
+  const insecure = optionalEnv("TERMINUS_TLS_INSECURE");
+
+  return {
+    timeout: numberEnv("TERMINUS_TIMEOUT_MS", 10_000),
+    retries: numberEnv("TERMINUS_RETRIES", 3),
+    retryDelay: numberEnv("TERMINUS_RETRY_DELAY_MS", 500),
+    token: optionalEnv("TERMINUS_TOKEN"),
+    basicAuth:
+      username !== undefined
+        ? { username, password: password ?? "" }
+        : undefined,
+    tls: {
+      ca: fileEnv("TERMINUS_CA_CERT"),
+      cert: fileEnv("TERMINUS_CLIENT_CERT"),
+      key: fileEnv("TERMINUS_CLIENT_KEY"),
+      rejectUnauthorized: !(insecure === "true" || insecure === "1"),
+    },
+  };
+}
 
 /**
  * Initialize the Terminus API client with base URL
  * @param url - Optional custom base URL (defaults to environment variables)
+ * @param options - Optional connection, authentication and retry options (defaults to environment variables)
  */
-export function initializeTerminus(url?: string): void {
-  const finalURL = url || baseURL;
+export function initializeTerminus(
+  url?: string,
+  options: TerminusOptions = {},
+): void {
+  const finalURL = (url || baseUrlFromEnv()).replace(/\/+$/, "");
+  const envOptions = optionsFromEnv();
+
+  clientOptions = {
+    timeout: options.timeout ?? envOptions.timeout!,
+    retries: options.retries ?? envOptions.retries!,
+    retryDelay: options.retryDelay ?? envOptions.retryDelay!,
+  };
+
+  const token = options.token ?? envOptions.token;
+  const basicAuth = options.basicAuth ?? envOptions.basicAuth;
+  if (token && basicAuth) {
+    throw new Error(
+      "Terminus token and basic authentication cannot be used together",
+    );
+  }
+
+  const headers: Record<string, string> = {
+    "Content-Type": "application/json",
+  };
+  if (token) {
+    headers.Authorization = `Bearer ${token}`;
+  }
+
   apiClient = axios.create({
     baseURL: finalURL,
-    headers: {
-      "Content-Type": "application/json",
-    },
+    timeout: clientOptions.timeout,
+    headers,
+    auth: basicAuth,
+    httpsAgent: new https.Agent({ ...envOptions.tls, ...options.tls }),
   });
 }
 
-// Initialize with environment variables
-initializeTerminus();
+/**
+ * Get the API client, initializing it with environment variables on first use.
+ * Doing it lazily allows importing this module without a Terminus configuration.
+ */
+function client(): AxiosInstance {
+  if (!apiClient) initializeTerminus();
+  return apiClient!;
+}
 
 /**
- * Get all screens from the Terminus server
- * @returns Promise resolving to screens response
+ * Calls the Terminus API, converting failures into typed errors
+ * @param action - Description of the call, used in error messages
+ * @param call - Function doing the request
+ * @param idempotent - Whether the request can safely be retried on transient errors
  */
-export async function getScreens(): Promise<Screen[]> {
+async function request<T>(
+  action: string,
+  call: (client: AxiosInstance) => Promise<T>,
+  idempotent: boolean,
+): Promise<T> {
+  const api = client();
+  const retries = idempotent ? clientOptions.retries : 0;
+
+  for (let attempt = 0; ; attempt++) {
+    try {
+      return await call(api);
+    } catch (err) {
+      const error = toTerminusError(action, err);
+      if (attempt >= retries || !isTransientError(error)) {
+        throw error;
+      }
+
+      // Exponential backoff, with some jitter to avoid synchronized retries
+      const delay = clientOptions.retryDelay * 2 ** attempt;
+      await sleep(delay + Math.random() * delay * 0.2);
+    }
+  }
+}
+
+/**
+ * Delete a resource. A resource that doesn't exist anymore counts as deleted:
+ * when the response of a successful DELETE is lost, its retry gets a 404.
+ * @param action - Description of the request, used in the error messages
+ * @param url - URL of the resource
+ */
+async function deleteResource(action: string, url: string): Promise<void> {
   try {
-    const response: AxiosResponse<{ data: Screen[] }> =
-      await apiClient.get("/api/screens");
-    return response.data.data;
+    await request(action, (api) => api.delete(url), true);
   } catch (error) {
-    throw new Error(`Failed to get screens: ${error}`);
+    if (!(error instanceof TerminusNotFoundError)) throw error;
   }
 }
 
+/**
+ * Get all screens from the Terminus server
+ * @returns Promise resolving to screens response
+ */
+export async function getScreens(): Promise<Screen[]> {
+  return request(
+    "get screens",
+    async (api) => {
+      const response: AxiosResponse<{ data: Screen[] }> =
+        await api.get("/api/screens");
+      return response.data.data;
+    },
+    true,
+  );
+}
+
 /**
  * Add a new screen with base64 image data
  * @param b64 - Base64 encoded image data
@@ -117,39 +312,36 @@ export async function addScreen(
   fileName?: string,
   modelId: number = 1,
 ): Promise<number> {
-  try {
-    const requestData = {
-      image: {
-        data: b64,
-        label: label || screenName,
-        name: screenName,
-        file_name: fileName || `${screenName}.png`,
-        model_id: modelId.toString(),
-      },
-    };
-
-    const response: AxiosResponse<{ data: Screen }> = await apiClient.post(
-      "/api/screens",
-      requestData,
-    );
+  const requestData = {
+    image: {
+      data: b64,
+      label: label || screenName,
+      name: screenName,
+      file_name: fileName || `${screenName}.png`,
+      model_id: modelId.toString(),
+    },
+  };
 
-    return response.data.data.id;
-  } catch (error) {
-    throw new Error(`Failed to add screen: ${error}`);
-  }
+  return request(
+    "add screen",
+    async (api) => {
+      const response: AxiosResponse<{ data: Screen }> = await api.post(
+        "/api/screens",
+        requestData,
+      );
+      return response.data.data.id;
+    },
+    false,
+  );
 }
 
 /**
  * Remove a screen by ID
  * @param id - Screen ID to remove
- * @returns Promise resolving when screen is deleted
+ * @returns Promise resolving when screen is deleted, or if it was already deleted
  */
 export async function removeScreen(id: number): Promise<void> {
-  try {
-    await apiClient.delete(`/api/screens/${id}`);
-  } catch (error) {
-    throw new Error(`Failed to remove screen ${id}: ${error}`);
-  }
+  await deleteResource(`remove screen ${id}`, `/api/screens/${id}`);
 }
 
 /**
@@ -162,25 +354,172 @@ export async function addScreenToPlaylist(
   playlistId: number,
   screenId: number,
 ): Promise<void> {
-  try {
-    const formData = new URLSearchParams();
-    formData.append("playlist_item[screen_id]", screenId.toString());
-
-    await apiClient.post(`/playlists/${playlistId}/items`, formData, {
-      headers: {
-        "Content-Type": "application/x-www-form-urlencoded",
-      },
-    });
-  } catch (error) {
-    throw new Error(
-      `Failed to add screen ${screenId} to playlist ${playlistId}: ${error}`,
-    );
+  const payload = { playlist_item: { screen_id: screenId } };
+
+  await request(
+    `add screen ${screenId} to playlist ${playlistId}`,
+    (api) => api.post(`/api/playlists/${playlistId}/items`, payload),
+    false,
+  );
+}
+
+/**
+ * Get all playlists from the Terminus server
+ * @returns Promise resolving to the list of playlists
+ */
+export async function getPlaylists(): Promise<Playlist[]> {
+  return request(
+    "get playlists",
+    async (api) => {
+      const response: AxiosResponse<{ data: Playlist[] }> =
+        await api.get("/api/playlists");
+      return response.data.data;
+    },
+    true,
+  );
+}
+
+/**
+ * Get the items of a playlist, sorted by position
+ * @param playlistId - Playlist ID
+ * @returns Promise resolving to the playlist items
+ */
+export async function getPlaylistItems(
+  playlistId: number,
+): Promise<PlaylistItem[]> {
+  const items = await request(
+    `get items of playlist ${playlistId}`,
+    async (api) => {
+      const response: AxiosResponse<{ data: PlaylistItem[] }> = await api.get(
+        `/api/playlists/${playlistId}/items`,
+      );
+      return response.data.data;
+    },
+    true,
+  );
+
+  return items.sort((a, b) => a.position - b.position);
+}
+
+/**
+ * Find the playlist item displaying a screen
+ * @param playlistId - Playlist ID
+ * @param screenId - Screen ID to look for
+ * @returns Promise resolving to the playlist item, or null if the screen is not in the playlist
+ */
+export async function getPlaylistItemByScreen(
+  playlistId: number,
+  screenId: number,
+): Promise<PlaylistItem | null> {
+  const items = await getPlaylistItems(playlistId);
+  return items.find((item) => item.screen_id === screenId) ?? null;
+}
+
+/**
+ * Update one or more attributes of a playlist item
+ * @param playlistId - Playlist ID
+ * @param itemId - Playlist item ID
+ * @param updates - Attributes to update (e.g. { screen_id: 12 } to replace the screen in place)
+ * @returns Promise resolving to the updated playlist item
+ */
+export async function updatePlaylistItem(
+  playlistId: number,
+  itemId: number,
+  updates: Partial<Pick<PlaylistItem, "screen_id" | "position" | "duration">>,
+): Promise<PlaylistItem> {
+  const payload = { playlist_item: updates };
+
+  return request(
+    `update item ${itemId} of playlist ${playlistId}`,
+    async (api) => {
+      const response: AxiosResponse<{ data: PlaylistItem }> = await api.patch(
+        `/api/playlists/${playlistId}/items/${itemId}`,
+        payload,
+      );
+      return response.data.data;
+    },
+    true,
+  );
+}
+
+/**
+ * Move a playlist item to a given position
+ * @param playlistId - Playlist ID
+ * @param itemId - Playlist item ID
+ * @param position - New position of the item. Terminus numbers the positions from 1
+ * @returns Promise resolving to the updated playlist item
+ */
+export async function setPlaylistItemPosition(
+  playlistId: number,
+  itemId: number,
+  position: number,
+): Promise<PlaylistItem> {
+  return updatePlaylistItem(playlistId, itemId, { position });
+}
+
+/**
+ * Set the time a playlist item stays on screen
+ * @param playlistId - Playlist ID
+ * @param itemId - Playlist item ID
+ * @param duration - Duration in seconds, or null to use the device refresh rate
+ * @returns Promise resolving to the updated playlist item
+ */
+export async function setPlaylistItemDuration(
+  playlistId: number,
+  itemId: number,
+  duration: number | null,
+): Promise<PlaylistItem> {
+  return updatePlaylistItem(playlistId, itemId, { duration });
+}
+
+/**
+ * Reorder the items of a playlist. They are numbered from 1, like Terminus does
+ * @param playlistId - Playlist ID
+ * @param itemIds - IDs of the items, in the wanted order. Items not listed keep their relative order, after the listed ones
+ * @returns Promise resolving when all the items are in place
+ */
+export async function reorderPlaylistItems(
+  playlistId: number,
+  itemIds: number[],
+): Promise<void> {
+  const items = await getPlaylistItems(playlistId);
+  const orderedItems = [
+    ...itemIds.map((id) => {
+      const item = items.find((item) => item.id === id);
+      if (!item) {
+        throw new Error(`Item ${id} is not in playlist ${playlistId}`);
+      }
+      return item;
+    }),
+    ...items.filter((item) => !itemIds.includes(item.id)),
+  ];
+
+  for (const [index, item] of orderedItems.entries()) {
+    const position = index + 1;
+    if (item.position !== position) {
+      await setPlaylistItemPosition(playlistId, item.id, position);
+    }
   }
 }
 
+/**
+ * Remove an item from a playlist
+ * @param playlistId - Playlist ID
+ * @param itemId - Playlist item ID to remove
+ * @returns Promise resolving when the item is removed, or if it was already removed
+ */
+export async function removePlaylistItem(
+  playlistId: number,
+  itemId: number,
+): Promise<void> {
+  await deleteResource(
+    `remove item ${itemId} from playlist ${playlistId}`,
+    `/api/playlists/${playlistId}/items/${itemId}`,
+  );
+}
+
 /**
  * Remove a screen from a playlist
- * Note: This requires finding the playlist item ID first
  * @param playlistId - Playlist ID
  * @param screenId - Screen ID to remove
  * @returns Promise resolving when screen is removed from playlist
@@ -189,16 +528,30 @@ export async function removeScreenFromPlaylist(
   playlistId: number,
   screenId: number,
 ): Promise<void> {
-  try {
-    // Note: The API requires itemId, not screenId directly
-    // This would need additional endpoint to get playlist items first
-    // For now, implementing as direct DELETE call
-    await apiClient.delete(`/playlists/${playlistId}/items/${screenId}`);
-  } catch (error) {
-    throw new Error(
-      `Failed to remove screen ${screenId} from playlist ${playlistId}: ${error}`,
+  const item = await getPlaylistItemByScreen(playlistId, screenId);
+  if (!item) {
+    throw new TerminusError(
+      `Failed to remove screen ${screenId} from playlist ${playlistId}: the screen is not in the playlist`,
     );
   }
+
+  await removePlaylistItem(playlistId, item.id);
+}
+
+/**
+ * Get all devices registered on the Terminus server
+ * @returns Promise resolving to the list of devices
+ */
+export async function getDevices(): Promise<Device[]> {
+  return request(
+    "get devices",
+    async (api) => {
+      const response: AxiosResponse<{ data: Device[] }> =
+        await api.get("/api/devices");
+      return response.data.data;
+    },
+    true,
+  );
 }
 
 /**
@@ -207,18 +560,21 @@ export async function removeScreenFromPlaylist(
  * @returns Promise resolving to device data
  */
 export async function getDevice(deviceId: number): Promise<Device> {
-  try {
-    const response: AxiosResponse<{ data: Device }> = await apiClient
-      .get(`/api/devices/${deviceId}`);
-    return response.data.data;
-  } catch (error) {
-    throw new Error(`Failed to get device ${deviceId}: ${error}`);
-  }
+  return request(
+    `get device ${deviceId}`,
+    async (api) => {
+      const response: AxiosResponse<{ data: Device }> = await api.get(
+        `/api/devices/${deviceId}`,
+      );
+      return response.data.data;
+    },
+    true,
+  );
 }
 
 /**
  * Update one or more attributes of a device.
- * 
+ *
  * @param deviceId - The ID of the device to update
  * @param updates - An object with device properties to update (e.g. { refresh_rate: 250 })
  * @returns Promise resolving to the updated Device object
@@ -238,20 +594,22 @@ export async function updateDevice(
       | "sleep_start_at"
       | "sleep_stop_at"
     >
-  >
+  >,
 ): Promise<Device> {
-  try {
-    const payload = { device: updates };
-    const response: AxiosResponse<{ data: Device }> = await apiClient.patch(
-      `/api/devices/${deviceId}`,
-      payload
-    );
-    return response.data.data;
-  } catch (error) {
-    throw new Error(
-      `Failed to update device ${deviceId}: ${error}`
-    );
-  }
+  const payload = { device: updates };
+
+  // Setting the same values twice has the same effect, the update can be retried
+  return request(
+    `update device ${deviceId}`,
+    async (api) => {
+      const response: AxiosResponse<{ data: Device }> = await api.patch(
+        `/api/devices/${deviceId}`,
+        payload,
+      );
+      return response.data.data;
+    },
+    true,
+  );
 }
 
 /**
@@ -260,12 +618,35 @@ export async function updateDevice(
  * @returns Promise resolving to model data
  */
 export async function getModel(modelId: number): Promise<Model> {
-  try {
-    const response: AxiosResponse<{ data: Model }> = await apiClient.get(
-      `/api/models/${modelId}`,
-    );
-    return response.data.data;
-  } catch (error) {
-    throw new Error(`Failed to get model ${modelId}: ${error}`);
-  }
+  return request(
+    `get model ${modelId}`,
+    async (api) => {
+      const response: AxiosResponse<{ data: Model }> = await api.get(
+        `/api/models/${modelId}`,
+      );
+      return response.data.data;
+    },
+    true,
+  );
+}
+
+/**
+ * Get the logical size of the screen, as seen by the plugins.
+ * Takes the model rotation into account, and divides the physical size by the scale factor.
+ * @param model - Model of the device
+ * @returns The logical width and height of the screen
+ */
+export function getModelScreenSize(model: Model): {
+  width: number;
+  height: number;
+} {
+  const isRotated = (model.rotation + 90) % 180 === 0;
+  const scaleFactor = model.scale_factor || 1;
+  const width = isRotated ? model.height : model.width;
+  const height = isRotated ? model.width : model.height;
+
+  return {
+    width: Math.round(width / scaleFactor),
+    height: Math.round(height / scaleFactor),
+  };
 }
@@ -0,0 +1,95 @@
+import axios from "axios";
+
+/**
+ * Base class of all the errors thrown by the Terminus client
+ */
+export class TerminusError extends Error {
+  constructor(
+    message: string,
+    public readonly cause?: unknown,
+  ) {
+    super(message);
+    this.name = new.target.name;
+  }
+}
+
+/**
+ * The server could not be reached, or did not answer in time
+ */
+export class TerminusNetworkError extends TerminusError {}
+
+/**
+ * The server answered with an error status
+ */
+export class TerminusHttpError extends TerminusError {
+  constructor(
+    message: string,
+    public readonly status: number,
+    public readonly body: unknown,
+    cause?: unknown,
+  ) {
+    super(message, cause);
+  }
+}
+
+/**
+ * The server rejected the request (4xx status)
+ */
+export class TerminusClientError extends TerminusHttpError {}
+
+/**
+ * The requested resource does not exist (404 status)
+ */
+export class TerminusNotFoundError extends TerminusClientError {}
+
+/**
+ * The server failed to handle the request (5xx status)
+ */
+export class TerminusServerError extends TerminusHttpError {}
+
+/**
+ * Checks if an error is worth retrying: the same request may succeed later
+ */
+export function isTransientError(error: unknown): boolean {
+  return (
+    error instanceof TerminusNetworkError ||
+    error instanceof TerminusServerError ||
+    (error instanceof TerminusHttpError && error.status === 429)
+  );
+}
+
+/**
+ * Converts any error thrown while calling the Terminus API into a typed error
+ * @param action - Description of what was being done, e.g. "get device 1"
+ * @param error - The original error
+ */
+export function toTerminusError(action: string, error: unknown): TerminusError {
+  if (error instanceof TerminusError) return error;
+
+  if (!axios.isAxiosError(error)) {
+    return new TerminusError(`Failed to ${action}: ${error}`, error);
+  }
+
+  if (!error.response) {
+    return new TerminusNetworkError(
+      `Failed to ${action}: ${error.code ?? error.message}`,
+      error,
+    );
+  }
+
+  const { status, data } = error.response;
+  const body = typeof data === "string" ? data : JSON.stringify(data);
+  const message = `Failed to ${action}: HTTP ${status} ${body ?? ""}`.trim();
+
+  if (status === 404) {
+    return new TerminusNotFoundError(message, status, data, error);
+  }
+  if (status >= 400 && status < 500) {
+    return new TerminusClientError(message, status, data, error);
+  }
+  if (status >= 500) {
+    return new TerminusServerError(message, status, data, error);
+  }
+
+  return new TerminusHttpError(message, status, data, error);
+}